@@ -160,14 +160,6 @@ interface User {
         </div>
       </div>
 
-      <!-- Event Log -->
-      <div class="event-log" *ngIf="messages().length > 0">
-        <h3 class="event-log-title">Event Log</h3>
-        <ul class="message-list">
-          <li class="message" *ngFor="let msg of messages()">{{ msg }}</li>
-        </ul>
-      </div>
-
       <div class="footer">
         <p>
           <strong>Base Path:</strong> {{ basePath }} |
@@ -416,34 +408,6 @@ interface User {
       flex-wrap: wrap;
     }
 
-    .event-log {
-      background: rgba(0, 0, 0, 0.3);
-      border-radius: 8px;
-      padding: 1rem;
-      margin-bottom: 1rem;
-    }
-
-    .event-log-title {
-      margin: 0 0 0.5rem;
-      color: #ffffff;
-      font-size: 0.9rem;
-    }
-
-    .message-list {
-      list-style: none;
-      padding: 0;
-      margin: 0;
-    }
-
-    .message {
-      padding: 0.5rem;
-      margin-bottom: 0.25rem;
-      background: rgba(255, 255, 255, 0.1);
-      border-radius: 4px;
-      color: rgba(255, 255, 255, 0.8);
-      font-size: 0.8rem;
-    }
-
     .footer {
       padding: 1rem;
       background: rgba(0, 0, 0, 0.2);
@@ -462,7 +426,6 @@ export class AppComponent implements OnInit, OnDestroy {
   doubleCount = computed(() => this.count() * 2);
   totalIncrements = signal(0);
 
-  messages = signal<string[]>([]);
   auth = signal<{ user: User | null; token: string | null; isAuthenticated: boolean } | null>(null);
 
   showContent = signal(true);
@@ -476,7 +439,6 @@ export class AppComponent implements OnInit, OnDestroy {
 
   activeItemsCount = computed(() => this.items().filter(i => i.active).length);
 
-  private unsubNotification?: () => void;
   private unsubAuth?: () => void;
   private unsubNav?: () => void;
 
@@ -505,40 +467,26 @@ export class AppComponent implements OnInit, OnDestroy {
     }
 
     if (this.props?.auth) {
-      this.auth.set({
-        user: this.props.auth.user,
-        token: this.props.auth.token,
-        isAuthenticated: this.props.auth.isAuthenticated,
-      });
-    }
-
-    if (this.props?.eventBus) {
-      this.unsubNotification = this.props.eventBus.on('notification:show', (payload) => {
-        const msg = payload as { message: string };
-        this.messages.update(msgs => [...msgs, msg.message].slice(-5));
-        this.cdr.markForCheck();
-      });
-
-      this.unsubAuth = this.props.eventBus.on('auth:changed', (payload) => {
-        const authPayload = payload as { user: User | null; token: string | null; isAuthenticated: boolean };
+      // subscribe() delivers the current state immediately, then every change
+      this.unsubAuth = this.props.auth.subscribe((state) => {
         this.auth.set({
-          user: authPayload.user,
-          token: authPayload.token,
-          isAuthenticated: authPayload.isAuthenticated,
+          user: state.user,
+          token: state.token,
+          isAuthenticated: state.isAuthenticated,
         });
         this.cdr.markForCheck();
       });
+    }
 
+    if (this.props?.eventBus) {
       this.unsubNav = this.props.eventBus.on('navigation:changed', (payload) => {
-        const navPayload = payload as { path: string };
-        this.currentPath.set(navPayload.path);
+        this.currentPath.set(payload.path);
         this.cdr.markForCheck();
       });
     }
   }
 
   ngOnDestroy(): void {
-    if (this.unsubNotification) this.unsubNotification();
     if (this.unsubAuth) this.unsubAuth();
     if (this.unsubNav) this.unsubNav();
   }
@@ -1,4 +1,5 @@
 import { ApplicationConfig, InjectionToken, provideExperimentalZonelessChangeDetection } from '@angular/core';
+import type { EventBus } from '@micro-ui/mfe-types';
 
 interface User {
   id: string;
@@ -7,17 +8,16 @@ interface User {
   roles: string[];
 }
 
-interface AuthContext {
+interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: () => void;
-  logout: () => void;
 }
 
-interface EventBus {
-  emit: (event: string, payload: unknown) => void;
-  on: (event: string, handler: (payload: unknown) => void) => () => void;
+interface AuthContext extends AuthState {
+  login: () => void;
+  logout: () => void;
+  subscribe: (listener: (state: AuthState) => void) => () => void;
 }
 
 interface MfeRoute {
@@ -12,6 +12,8 @@ interface MfeRoute {
 
 let appRef: ApplicationRef | null = null;
 
+export const lifecycleVersion = 1;
+
 export async function bootstrap(_props: MfeProps): Promise<void> {
   console.log('[Angular MFE] Bootstrapping');
 }
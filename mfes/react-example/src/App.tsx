@@ -1,4 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
+import type { EventBus } from '@micro-ui/mfe-types';
 
 interface User {
   id: string;
@@ -7,17 +8,16 @@ interface User {
   roles: string[];
 }
 
-interface AuthContext {
+interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: () => void;
-  logout: () => void;
 }
 
-interface EventBus {
-  emit: (event: string, payload: unknown) => void;
-  on: (event: string, handler: (payload: unknown) => void) => () => void;
+interface AuthContext extends AuthState {
+  login: () => void;
+  logout: () => void;
+  subscribe: (listener: (state: AuthState) => void) => () => void;
 }
 
 interface AppProps {
@@ -26,6 +26,8 @@ interface AppProps {
   navigate: (path: string) => void;
   basePath: string;
   currentPath: string;
+  // False while the shell keeps the dashboard hidden
+  active: boolean;
 }
 
 // ============ Overview Tab ============
@@ -74,10 +76,13 @@ function OverviewTab({ auth, eventBus }: { auth: AuthContext; eventBus: EventBus
 }
 
 // ============ Analytics Tab ============
-function AnalyticsTab({ eventBus }: { eventBus: EventBus }) {
+function AnalyticsTab({ eventBus, active }: { eventBus: EventBus; active: boolean }) {
   const [chartData, setChartData] = useState<number[]>([]);
 
   useEffect(() => {
+    // Pause updates while the dashboard is hidden
+    if (!active) return;
+
     // Simulate real-time data updates
     const interval = setInterval(() => {
       setChartData((prev) => {
@@ -87,7 +92,7 @@ function AnalyticsTab({ eventBus }: { eventBus: EventBus }) {
     }, 2000);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [active]);
 
   const emitAnalyticsEvent = () => {
     eventBus.emit('analytics:track', {
@@ -253,8 +258,7 @@ function AdminTab({ auth, eventBus }: { auth: AuthContext; eventBus: EventBus })
 }
 
 // ============ Main App ============
-export default function App({ auth: initialAuth, eventBus, basePath, currentPath: initialPath }: AppProps) {
-  const [messages, setMessages] = useState<string[]>([]);
+export default function App({ auth: initialAuth, eventBus, basePath, currentPath: initialPath, active }: AppProps) {
   const [auth, setAuth] = useState(initialAuth);
   const [currentPath, setCurrentPath] = useState(initialPath);
 
@@ -268,37 +272,24 @@ export default function App({ auth: initialAuth, eventBus, basePath, currentPath
   }, [currentPath, basePath]);
 
   useEffect(() => {
-    const unsubNotification = eventBus.on('notification:show', (payload) => {
-      const msg = payload as { message: string };
-      setMessages((prev) => [...prev, msg.message].slice(-5));
-    });
-
-    const unsubAuth = eventBus.on('auth:changed', (payload) => {
-      const authPayload = payload as { user: User | null; token: string | null; isAuthenticated: boolean };
-      setAuth((prev) => ({
-        ...prev,
-        user: authPayload.user,
-        token: authPayload.token,
-        isAuthenticated: authPayload.isAuthenticated,
-      }));
+    const unsubAuth = initialAuth.subscribe((state) => {
+      setAuth((prev) => ({ ...prev, ...state }));
     });
 
     const unsubNav = eventBus.on('navigation:changed', (payload) => {
-      const navPayload = payload as { path: string };
-      setCurrentPath(navPayload.path);
+      setCurrentPath(payload.path);
     });
 
     return () => {
-      unsubNotification();
       unsubAuth();
       unsubNav();
     };
-  }, [eventBus]);
+  }, [eventBus, initialAuth]);
 
   const renderTab = () => {
     switch (activeTab) {
       case 'analytics':
-        return <AnalyticsTab eventBus={eventBus} />;
+        return <AnalyticsTab eventBus={eventBus} active={active} />;
       case 'reports':
         return <ReportsTab auth={auth} eventBus={eventBus} />;
       case 'admin':
@@ -317,19 +308,6 @@ export default function App({ auth: initialAuth, eventBus, basePath, currentPath
 
       {renderTab()}
 
-      {messages.length > 0 && (
-        <div style={styles.eventLog}>
-          <h3 style={styles.eventLogTitle}>Event Log</h3>
-          <ul style={styles.messageList}>
-            {messages.map((msg, i) => (
-              <li key={i} style={styles.message}>
-                {msg}
-              </li>
-            ))}
-          </ul>
-        </div>
-      )}
-
       <div style={styles.footer}>
         <p>
           <strong>Base Path:</strong> {basePath} | <strong>Current:</strong> {currentPath} |{' '}
@@ -508,30 +486,6 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '0.75rem',
     color: '#61dafb',
   },
-  eventLog: {
-    background: 'rgba(0, 0, 0, 0.3)',
-    borderRadius: '8px',
-    padding: '1rem',
-    marginBottom: '1rem',
-  },
-  eventLogTitle: {
-    margin: '0 0 0.5rem',
-    color: '#ffffff',
-    fontSize: '0.9rem',
-  },
-  messageList: {
-    listStyle: 'none',
-    padding: 0,
-    margin: 0,
-  },
-  message: {
-    padding: '0.5rem',
-    marginBottom: '0.25rem',
-    background: 'rgba(97, 218, 251, 0.1)',
-    borderRadius: '4px',
-    color: '#a0a0b0',
-    fontSize: '0.8rem',
-  },
   footer: {
     padding: '1rem',
     background: 'rgba(0, 0, 0, 0.2)',
@@ -1,5 +1,6 @@
 import { createRoot, Root } from 'react-dom/client';
 import App from './App';
+import type { EventBus } from '@micro-ui/mfe-types';
 
 interface User {
   id: string;
@@ -8,17 +9,16 @@ interface User {
   roles: string[];
 }
 
-interface AuthContext {
+interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: () => void;
-  logout: () => void;
 }
 
-interface EventBus {
-  emit: (event: string, payload: unknown) => void;
-  on: (event: string, handler: (payload: unknown) => void) => () => void;
+interface AuthContext extends AuthState {
+  login: () => void;
+  logout: () => void;
+  subscribe: (listener: (state: AuthState) => void) => () => void;
 }
 
 interface MfeRoute {
@@ -54,6 +54,10 @@ interface MfeProps {
 }
 
 let root: Root | null = null;
+// Re-renders the app; active is false while the shell keeps it hidden
+let renderApp: ((active: boolean) => void) | null = null;
+
+export const lifecycleVersion = 1;
 
 export async function bootstrap(_props: MfeProps): Promise<void> {
   console.log('[React MFE] Bootstrapping');
@@ -83,15 +87,18 @@ export async function mount(props: MfeProps): Promise<void> {
   navigation.registerRoutes(routes);
 
   root = createRoot(container);
-  root.render(
-    <App
-      auth={auth}
-      eventBus={eventBus}
-      navigate={navigate}
-      basePath={basePath}
-      currentPath={navigation.currentPath}
-    />
-  );
+  renderApp = (active) =>
+    root?.render(
+      <App
+        auth={auth}
+        eventBus={eventBus}
+        navigate={navigate}
+        basePath={basePath}
+        currentPath={navigation.currentPath}
+        active={active}
+      />
+    );
+  renderApp(true);
 
   console.log('[React MFE] Mounted');
 }
@@ -103,6 +110,18 @@ export async function unmount(props: MfeProps): Promise<void> {
     root.unmount();
     root = null;
   }
+  renderApp = null;
 
   console.log('[React MFE] Unmounted');
 }
+
+// keepAlive: the shell hides the dashboard instead of unmounting it
+export async function suspend(_props: MfeProps): Promise<void> {
+  renderApp?.(false);
+  console.log('[React MFE] Suspended');
+}
+
+export async function resume(_props: MfeProps): Promise<void> {
+  renderApp?.(true);
+  console.log('[React MFE] Resumed');
+}
@@ -1,5 +1,6 @@
 import { createSignal, createEffect, createMemo, onMount, onCleanup, For, Show } from 'solid-js';
 import { createStore } from 'solid-js/store';
+import type { EventBus } from '@micro-ui/mfe-types';
 
 interface User {
   id: string;
@@ -8,17 +9,16 @@ interface User {
   roles: string[];
 }
 
-interface AuthContext {
+interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: () => void;
-  logout: () => void;
 }
 
-interface EventBus {
-  emit: (event: string, payload: unknown) => void;
-  on: (event: string, handler: (payload: unknown) => void) => () => void;
+interface AuthContext extends AuthState {
+  login: () => void;
+  logout: () => void;
+  subscribe: (listener: (state: AuthState) => void) => () => void;
 }
 
 interface AppProps {
@@ -313,7 +313,6 @@ function StoreTab(props: { eventBus: EventBus }) {
 
 // ============ Main App ============
 export default function App(props: AppProps) {
-  const [messages, setMessages] = createSignal<string[]>([]);
   const [auth, setAuth] = createSignal<AuthContext>(props.auth);
   const [currentPath, setCurrentPath] = createSignal(props.currentPath);
 
@@ -329,28 +328,15 @@ export default function App(props: AppProps) {
   onMount(() => {
     console.log('[SolidJS] Component mounted');
 
-    const unsubNotification = props.eventBus.on('notification:show', (payload) => {
-      const msg = payload as { message: string };
-      setMessages((prev) => [...prev, msg.message].slice(-5));
-    });
-
-    const unsubAuth = props.eventBus.on('auth:changed', (payload) => {
-      const authPayload = payload as { user: User | null; token: string | null; isAuthenticated: boolean };
-      setAuth((prev) => ({
-        ...prev,
-        user: authPayload.user,
-        token: authPayload.token,
-        isAuthenticated: authPayload.isAuthenticated,
-      }));
+    const unsubAuth = props.auth.subscribe((state) => {
+      setAuth((prev) => ({ ...prev, ...state }));
     });
 
     const unsubNav = props.eventBus.on('navigation:changed', (payload) => {
-      const navPayload = payload as { path: string };
-      setCurrentPath(navPayload.path);
+      setCurrentPath(payload.path);
     });
 
     onCleanup(() => {
-      unsubNotification();
       unsubAuth();
       unsubNav();
       console.log('[SolidJS] Cleanup complete');
@@ -376,17 +362,6 @@ export default function App(props: AppProps) {
         <StoreTab eventBus={props.eventBus} />
       </Show>
 
-      <Show when={messages().length > 0}>
-        <div style={styles.eventLog}>
-          <h3 style={styles.eventLogTitle}>Event Log</h3>
-          <ul style={styles.messageList}>
-            <For each={messages()}>
-              {(msg) => <li style={styles.message}>{msg}</li>}
-            </For>
-          </ul>
-        </div>
-      </Show>
-
       <div style={styles.footer}>
         <p>
           <strong>Base Path:</strong> {props.basePath} | <strong>Current:</strong> {currentPath()} |{' '}
@@ -590,30 +565,6 @@ const styles: Record<string, string> = {
     color: #a0a0b0;
     font-size: 0.9rem;
   `,
-  eventLog: `
-    background: rgba(0, 0, 0, 0.3);
-    border-radius: 8px;
-    padding: 1rem;
-    margin-bottom: 1rem;
-  `,
-  eventLogTitle: `
-    margin: 0 0 0.5rem;
-    color: #ffffff;
-    font-size: 0.9rem;
-  `,
-  messageList: `
-    list-style: none;
-    padding: 0;
-    margin: 0;
-  `,
-  message: `
-    padding: 0.5rem;
-    margin-bottom: 0.25rem;
-    background: rgba(79, 136, 198, 0.1);
-    border-radius: 4px;
-    color: #a0a0b0;
-    font-size: 0.8rem;
-  `,
   footer: `
     padding: 1rem;
     background: rgba(0, 0, 0, 0.2);
@@ -1,5 +1,6 @@
 import { render } from 'solid-js/web';
 import App from './App';
+import type { EventBus } from '@micro-ui/mfe-types';
 
 interface User {
   id: string;
@@ -8,17 +9,16 @@ interface User {
   roles: string[];
 }
 
-interface AuthContext {
+interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: () => void;
-  logout: () => void;
 }
 
-interface EventBus {
-  emit: (event: string, payload: unknown) => void;
-  on: (event: string, handler: (payload: unknown) => void) => () => void;
+interface AuthContext extends AuthState {
+  login: () => void;
+  logout: () => void;
+  subscribe: (listener: (state: AuthState) => void) => () => void;
 }
 
 interface MfeRoute {
@@ -53,6 +53,8 @@ interface MfeProps {
 
 let dispose: (() => void) | null = null;
 
+export const lifecycleVersion = 1;
+
 export async function bootstrap(_props: MfeProps): Promise<void> {
   console.log('[SolidJS MFE] Bootstrapping');
 }
@@ -1,5 +1,6 @@
 import App from './App.svelte';
 import { mount, unmount as svelteUnmount } from 'svelte';
+import type { EventBus } from '@micro-ui/mfe-types';
 
 interface User {
   id: string;
@@ -8,17 +9,16 @@ interface User {
   roles: string[];
 }
 
-interface AuthContext {
+interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: () => void;
-  logout: () => void;
 }
 
-interface EventBus {
-  emit: (event: string, payload: unknown) => void;
-  on: (event: string, handler: (payload: unknown) => void) => () => void;
+interface AuthContext extends AuthState {
+  login: () => void;
+  logout: () => void;
+  subscribe: (listener: (state: AuthState) => void) => () => void;
 }
 
 interface MfeRoute {
@@ -34,9 +34,14 @@ interface NavigationApi {
   currentPath: string;
 }
 
+interface CacheOptions {
+  ttl?: number;
+  storage?: 'memory' | 'session' | 'local' | 'indexeddb';
+}
+
 interface MfeCache {
   get: <T>(key: string) => T | null;
-  set: <T>(key: string, value: T) => void;
+  set: <T>(key: string, value: T, options?: CacheOptions) => void;
   clear: () => void;
 }
 
@@ -53,12 +58,14 @@ interface MfeProps {
 
 let app: Record<string, unknown> | null = null;
 
+export const lifecycleVersion = 1;
+
 export async function bootstrap(_props: MfeProps): Promise<void> {
   console.log('[Svelte MFE] Bootstrapping');
 }
 
 export async function mountMfe(props: MfeProps): Promise<void> {
-  const { container, auth, eventBus, navigate, basePath, navigation } = props;
+  const { container, auth, eventBus, navigate, basePath, navigation, cache } = props;
 
   // Register routes for this MFE
   const routes: MfeRoute[] = [
@@ -71,7 +78,7 @@ export async function mountMfe(props: MfeProps): Promise<void> {
 
   app = mount(App, {
     target: container,
-    props: { auth, eventBus, navigate, basePath, currentPath: navigation.currentPath },
+    props: { auth, eventBus, navigate, basePath, currentPath: navigation.currentPath, cache },
   });
 
   console.log('[Svelte MFE] Mounted');
@@ -0,0 +1,23 @@
+// Shapes shared by the shell and MFEs that event payloads refer to
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  roles: string[];
+}
+
+export interface AuthState {
+  user: User | null;
+  token: string | null;
+  isAuthenticated: boolean;
+}
+
+export interface MfeRoute {
+  label: string;
+  path: string;
+  icon?: string;
+  order?: number;
+  permissions?: string[];
+  external?: boolean;
+}
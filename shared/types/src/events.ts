@@ -0,0 +1,202 @@
+import type { AuthState, MfeRoute } from './common';
+
+// Event contracts for the shell's EventBus.
+//
+// MfeEventMap maps each known event name to its payload type. MFEs that emit
+// their own events can add them through declaration merging:
+//
+//   declare module '@micro-ui/mfe-types' {
+//     interface MfeEventMap {
+//       'angular:custom': { message: string; timestamp: number };
+//     }
+//   }
+
+export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+export interface NotificationEvent {
+  type?: NotificationType;
+  message: string;
+}
+
+export interface NavigationChangedEvent {
+  path: string;
+  mfeId?: string;
+}
+
+export interface RoutesRegisteredEvent {
+  mfeId: string;
+  routes: MfeRoute[];
+}
+
+export interface RoutesUnregisteredEvent {
+  mfeId: string;
+}
+
+export interface TokenRefreshedEvent {
+  token: string;
+  expiresAt: number | null;
+}
+
+export interface FlagsChangedEvent {
+  flags: Record<string, boolean>;
+}
+
+export interface HttpErrorEvent {
+  mfeId: string;
+  method: string;
+  url: string;
+  status: number | null;
+  correlationId: string;
+  message: string;
+}
+
+export interface AnalyticsTrackEvent {
+  event: string;
+  properties?: Record<string, unknown>;
+}
+
+export interface AdminBroadcastEvent {
+  message: string;
+  sender?: string;
+}
+
+export interface ExportCompleteEvent {
+  format: string;
+  options: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface SettingsChangedEvent {
+  notifications: boolean;
+  darkMode: boolean;
+  autoSave: boolean;
+  language: string;
+}
+
+export interface PreferencesChangedEvent {
+  fontSize: number;
+  accentColor: string;
+  animations: boolean;
+  compactMode: boolean;
+}
+
+export interface CacheEvictedEvent {
+  mfeId: string;
+  // Key as the MFE passed it to cache.set(), without the shell's namespace
+  key: string;
+  // Which quota the MFE exceeded, or 'too-large' when the value alone exceeds maxBytes
+  reason: 'max-entries' | 'max-bytes' | 'too-large';
+}
+
+export interface MfeEventMap {
+  'auth:changed': AuthState;
+  'auth:token-refreshed': TokenRefreshedEvent;
+  'navigation:changed': NavigationChangedEvent;
+  'navigation:routes-registered': RoutesRegisteredEvent;
+  'navigation:routes-unregistered': RoutesUnregisteredEvent;
+  'notification:show': NotificationEvent;
+  'flags:changed': FlagsChangedEvent;
+  'http:error': HttpErrorEvent;
+  'analytics:track': AnalyticsTrackEvent;
+  'admin:broadcast': AdminBroadcastEvent;
+  'export:complete': ExportCompleteEvent;
+  'settings:changed': SettingsChangedEvent;
+  'preferences:changed': PreferencesChangedEvent;
+  'cache:evicted': CacheEvictedEvent;
+}
+
+export type MfeEventName = keyof MfeEventMap;
+
+// Known events get their contract; any other name carries an unknown payload
+export type EventPayload<K extends string> = K extends MfeEventName ? MfeEventMap[K] : unknown;
+
+// Subscriptions may use a pattern instead of an exact name: '*' matches every
+// event and 'navigation:*' every event in the navigation namespace
+export type EventPattern = '*' | `${string}:*`;
+
+// Payload seen by a subscriber: a namespace pattern receives the union of the
+// declared events in that namespace, '*' and undeclared names receive unknown
+export type SubscriptionPayload<K extends string> = K extends MfeEventName
+  ? MfeEventMap[K]
+  : K extends `${infer Namespace}:*`
+    ? [Extract<MfeEventName, `${Namespace}:${string}`>] extends [never]
+      ? unknown
+      : MfeEventMap[Extract<MfeEventName, `${Namespace}:${string}`>]
+    : unknown;
+
+export interface EventMeta {
+  // ID of the MFE that emitted the event; undefined when the shell emitted it
+  source?: string;
+  // ID of the browser tab the event came from; set only for events relayed from another tab
+  originTab?: string;
+}
+
+// Meta passed to subscribers; `event` is the concrete name that was emitted,
+// which is how pattern subscribers tell events apart
+export interface DeliveredEventMeta extends EventMeta {
+  event: string;
+}
+
+export type EventHandler<K extends string = string> = (
+  payload: SubscriptionPayload<K>,
+  meta: DeliveredEventMeta
+) => void;
+
+// Request/response contracts for EventBus.request()/handle(). Empty by default;
+// MFEs that answer requests declare them through declaration merging:
+//
+//   declare module '@micro-ui/mfe-types' {
+//     interface MfeRequestMap {
+//       'dashboard:get-analytics': { request: { range: string }; response: { pageViews: number } };
+//     }
+//   }
+export interface MfeRequestMap {}
+
+type RequestContract<K extends string> = K extends keyof MfeRequestMap
+  ? MfeRequestMap[K] extends { request: infer Req; response: infer Res }
+    ? { request: Req; response: Res }
+    : { request: unknown; response: unknown }
+  : { request: unknown; response: unknown };
+
+export type RequestPayload<K extends string> = RequestContract<K>['request'];
+export type ResponsePayload<K extends string> = RequestContract<K>['response'];
+
+export type RequestHandler<K extends string = string> = (
+  payload: RequestPayload<K>,
+  meta: EventMeta
+) => ResponsePayload<K> | Promise<ResponsePayload<K>>;
+
+export interface RequestOptions {
+  // Milliseconds to wait for the handler before rejecting (default 5000)
+  timeout?: number;
+}
+
+// Reason a request() promise rejected, available as `error.code`
+export type RequestErrorCode = 'no-handler' | 'timeout' | 'handler-error';
+
+export interface SubscribeOptions {
+  // Set to false to skip payloads buffered on sticky/replay channels
+  replay?: boolean;
+}
+
+export interface EventBus {
+  emit: <K extends string>(event: K, payload: EventPayload<K>) => void;
+  // `event` may be a pattern such as 'navigation:*' or '*'. On sticky/replay
+  // channels the handler first receives the buffered payloads
+  on: <K extends string>(event: K, handler: EventHandler<K>, options?: SubscribeOptions) => () => void;
+  request: <K extends string>(
+    event: K,
+    payload: RequestPayload<K>,
+    options?: RequestOptions
+  ) => Promise<ResponsePayload<K>>;
+  // Register the single responder for a request; returns an unregister function
+  handle: <K extends string>(event: K, handler: RequestHandler<K>) => () => void;
+}
+
+// The bus each MFE receives. Events it emits are tagged with its ID, and any
+// subscriptions it still holds are removed by the shell when it unloads.
+export interface ScopedEventBus extends EventBus {
+  readonly mfeId: string;
+  // Active subscriptions made through this bus, for leak detection
+  listenerCount: () => number;
+}
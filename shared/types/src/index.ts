@@ -0,0 +1,2 @@
+export type * from './common';
+export type * from './events';
@@ -0,0 +1,163 @@
+// Local mock OpenID Connect identity provider for exercising the shell's
+// authorization-code + PKCE flow end to end without a real IdP.
+//
+// Usage:
+//   node scripts/mock-idp.mjs            (listens on http://localhost:5010)
+//   VITE_OIDC_ISSUER=http://localhost:5010 VITE_OIDC_CLIENT_ID=mfe-shell npm run dev
+//
+// Every /authorize request is approved immediately as the demo user below.
+// Tokens are HS256 JWTs signed with a fixed secret; never use this outside development.
+
+import { createServer } from 'node:http';
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+
+const port = Number(process.env.MOCK_IDP_PORT ?? 5010);
+const issuer = `http://localhost:${port}`;
+const tokenLifetime = Number(process.env.MOCK_IDP_TOKEN_TTL ?? 300); // seconds
+
+const demoUser = {
+  sub: 'mock-user-1',
+  name: 'Mock IdP User',
+  email: 'mock.user@example.com',
+  roles: (process.env.MOCK_IDP_ROLES ?? 'user,admin').split(','),
+};
+
+// code -> { clientId, redirectUri, codeChallenge, nonce }
+const codes = new Map();
+// refresh token -> { clientId, nonce }
+const refreshTokens = new Map();
+
+const base64Url = (input) => Buffer.from(input).toString('base64url');
+
+function signJwt(claims) {
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify(claims));
+  const signature = createHmac('sha256', 'mock-idp-secret').update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function issueTokens(clientId, nonce) {
+  const now = Math.floor(Date.now() / 1000);
+  const common = { iss: issuer, sub: demoUser.sub, aud: clientId, iat: now, exp: now + tokenLifetime };
+  const refreshToken = randomBytes(24).toString('base64url');
+  refreshTokens.set(refreshToken, { clientId, nonce });
+
+  return {
+    token_type: 'Bearer',
+    expires_in: tokenLifetime,
+    access_token: signJwt({ ...common, scope: 'openid profile email', roles: demoUser.roles }),
+    id_token: signJwt({ ...common, ...demoUser, nonce }),
+    refresh_token: refreshToken,
+  };
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Content-Type': 'application/json',
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function redirect(res, location) {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+async function readForm(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', issuer);
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204);
+  }
+
+  switch (url.pathname) {
+    case '/.well-known/openid-configuration':
+      return send(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        end_session_endpoint: `${issuer}/logout`,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code', 'refresh_token'],
+        code_challenge_methods_supported: ['S256'],
+      });
+
+    case '/authorize': {
+      const params = url.searchParams;
+      const redirectUri = params.get('redirect_uri');
+      if (!redirectUri) return send(res, 400, { error: 'invalid_request' });
+
+      const target = new URL(redirectUri);
+      if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256') {
+        target.searchParams.set('error', 'unsupported_response_type');
+        return redirect(res, target.toString());
+      }
+
+      const code = randomBytes(16).toString('base64url');
+      codes.set(code, {
+        clientId: params.get('client_id'),
+        redirectUri,
+        codeChallenge: params.get('code_challenge'),
+        nonce: params.get('nonce'),
+      });
+      target.searchParams.set('code', code);
+      target.searchParams.set('state', params.get('state') ?? '');
+      return redirect(res, target.toString());
+    }
+
+    case '/token': {
+      const form = await readForm(req);
+      const grantType = form.get('grant_type');
+
+      if (grantType === 'authorization_code') {
+        const pending = codes.get(form.get('code'));
+        codes.delete(form.get('code'));
+        const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+        if (
+          !pending ||
+          pending.clientId !== form.get('client_id') ||
+          pending.redirectUri !== form.get('redirect_uri') ||
+          pending.codeChallenge !== challenge
+        ) {
+          return send(res, 400, { error: 'invalid_grant' });
+        }
+        return send(res, 200, issueTokens(pending.clientId, pending.nonce));
+      }
+
+      if (grantType === 'refresh_token') {
+        const existing = refreshTokens.get(form.get('refresh_token'));
+        refreshTokens.delete(form.get('refresh_token'));
+        if (!existing) return send(res, 400, { error: 'invalid_grant' });
+        return send(res, 200, issueTokens(existing.clientId, existing.nonce));
+      }
+
+      return send(res, 400, { error: 'unsupported_grant_type' });
+    }
+
+    case '/userinfo':
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        return send(res, 401, { error: 'invalid_token' });
+      }
+      return send(res, 200, demoUser);
+
+    case '/logout':
+      return redirect(res, url.searchParams.get('post_logout_redirect_uri') ?? '/');
+
+    default:
+      return send(res, 404, { error: 'not_found' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[MockIdP] Listening on ${issuer}`);
+});
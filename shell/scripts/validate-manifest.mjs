@@ -0,0 +1,76 @@
+// Validate manifest files with the same checks the shell runs on startup.
+//
+// Usage:
+//   node scripts/validate-manifest.mjs                          (public/manifest.json and its overlays)
+//   node scripts/validate-manifest.mjs base.json [overlay.json ...]
+//
+// The base manifest is checked on its own and merged with each overlay
+// (public/manifest.*.json by default), as the shell would load them.
+// Exits with status 1 when any of them has errors; warnings are reported only.
+
+import { readFile, readdir } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { transformWithEsbuild } from 'vite';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+// The shell's modules are TypeScript; strip their types and import them from memory
+async function importTs(path) {
+  const file = join(root, path);
+  const { code } = await transformWithEsbuild(await readFile(file, 'utf8'), file, { loader: 'ts' });
+  return import(`data:text/javascript;base64,${Buffer.from(code).toString('base64')}`);
+}
+
+const { validateManifest, formatIssue } = await importTs('src/lib/manifestSchema.ts');
+const { mergeManifests } = await importTs('src/lib/manifestLayers.ts');
+
+async function defaultFiles() {
+  const publicDir = join(root, 'public');
+  const overlays = (await readdir(publicDir))
+    .filter((name) => /^manifest\..+\.json$/.test(name))
+    .sort()
+    .map((name) => join(publicDir, name));
+  return [join(publicDir, 'manifest.json'), ...overlays];
+}
+
+const label = (file) => relative(process.cwd(), file) || file;
+
+async function readJson(file) {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (e) {
+    console.error(`✗ ${label(file)}: ${e.message}`);
+    return undefined;
+  }
+}
+
+function report(name, issues) {
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  console.log(`${errors.length > 0 ? '✗' : '✓'} ${name}`);
+  for (const issue of issues) {
+    console.log(`  ${issue.severity === 'error' ? 'error  ' : 'warning'} ${formatIssue(issue)}`);
+  }
+  return errors.length === 0;
+}
+
+const [baseFile, ...overlayFiles] = process.argv.length > 2 ? process.argv.slice(2) : await defaultFiles();
+const base = await readJson(baseFile);
+let failed = base === undefined;
+
+if (base !== undefined) {
+  failed = !report(label(baseFile), validateManifest(base)) || failed;
+
+  for (const file of overlayFiles) {
+    const overlay = await readJson(file);
+    if (overlay === undefined) {
+      failed = true;
+      continue;
+    }
+    const { manifest, issues } = mergeManifests(base, overlay, label(file));
+    const ok = report(`${label(baseFile)} + ${label(file)}`, [...issues, ...validateManifest(manifest)]);
+    failed = !ok || failed;
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -1,11 +1,223 @@
-import type { User, AuthContext } from '../types/mfe';
+import type { User, AuthContext, AuthState, EventMeta, TokenRefreshedEvent } from '../types/mfe';
+import { createMockAuthProvider, type AuthProvider, type AuthSession } from './authProvider';
+import { createOidcProvider } from './oidcProvider';
+import { decodeJwt } from './jwt';
 import { eventBus } from './eventBus';
 
-function createAuth(): AuthContext {
-  let user = $state<User | null>(null);
-  let token = $state<string | null>(null);
+type AuthListener = (state: AuthState) => void;
+
+// Refresh this long before the access token actually expires
+const REFRESH_SKEW_MS = 60 * 1000;
+// Wait before retrying a failed refresh while the token is still usable
+const REFRESH_RETRY_MS = 30 * 1000;
+// setTimeout fires immediately for delays past this (about 24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Shell-side auth store: the MFE-facing AuthContext plus session bootstrapping
+export interface ShellAuth extends AuthContext {
+  readonly provider: AuthProvider;
+  restore: () => Promise<void>;
+  isCallback: (url: URL) => boolean;
+  handleCallback: (url: URL) => Promise<string>;
+  // Force a refresh after an API rejected the current token
+  refreshAccessToken: () => Promise<string | null>;
+}
+
+// Session expiry in epoch ms: explicit expiresAt, else the JWT's exp claim
+function expiresAtOf(session: AuthSession): number | null {
+  if (session.expiresAt) return session.expiresAt;
+  const exp = decodeJwt(session.accessToken)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+function isFresh(expiresAt: number | null): boolean {
+  return expiresAt === null || expiresAt - REFRESH_SKEW_MS > Date.now();
+}
+
+function createAuth(provider: AuthProvider): ShellAuth {
+  let session = $state<AuthSession | null>(null);
+  let user = $derived<User | null>(session?.user ?? null);
+  let token = $derived<string | null>(session?.accessToken ?? null);
+
+  // Plain listener set so non-Svelte MFEs can observe changes without runes
+  const listeners = new Set<AuthListener>();
+
+  let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // Refresh-token grants are serialized so rotating refresh tokens aren't reused
+  let refreshQueue: Promise<unknown> = Promise.resolve();
+  let pendingRefresh: Promise<AuthSession | null> | null = null;
+  // Down-scoped access tokens, keyed by their sorted scope list
+  const scopedTokens = new Map<string, { accessToken: string; expiresAt: number | null }>();
+
+  function snapshot(): AuthState {
+    return { user, token, isAuthenticated: user !== null };
+  }
+
+  function notifyListeners(): void {
+    const state = snapshot();
+    listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (e) {
+        console.error('[Auth] Error in auth listener:', e);
+      }
+    });
+  }
+
+  // meta.originTab marks changes that came from (or only concern) another
+  // tab, which keeps the cross-tab relay from broadcasting them again
+  function setSession(next: AuthSession | null, meta: EventMeta = {}): void {
+    session = next;
+    scopedTokens.clear();
+    scheduleRefresh();
+    notifyListeners();
+
+    // Notify MFEs of auth change
+    eventBus.emit('auth:changed', snapshot(), meta);
+  }
+
+  // Adopted sessions are refreshed by the tab that owns them. If that tab is
+  // gone nothing refreshes them, so they end once their token lapses.
+  function expireAdopted(): boolean {
+    if (!session?.adoptedFrom) return false;
+    const expiresAt = expiresAtOf(session);
+    if (expiresAt === null || expiresAt > Date.now()) return false;
+
+    console.warn('[Auth] Session adopted from another tab expired without a refresh; signing out');
+    // Only this tab's copy ended, so other tabs aren't told to sign out
+    setSession(null, { originTab: session.adoptedFrom });
+    return true;
+  }
+
+  function serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = refreshQueue.then(task, task);
+    refreshQueue = run.catch(() => {});
+    return run;
+  }
+
+  function scheduleRefresh(): void {
+    if (refreshTimer) clearTimeout(refreshTimer);
+    refreshTimer = null;
+    if (!session) return;
+
+    const expiresAt = expiresAtOf(session);
+    if (expiresAt === null) return;
+
+    const adopted = Boolean(session.adoptedFrom);
+    if (!adopted && !provider.refresh) return;
+
+    const delay = Math.max(expiresAt - (adopted ? 0 : REFRESH_SKEW_MS) - Date.now(), 0);
+    const task = adopted ? () => expireAdopted() || scheduleRefresh() : () => void refreshSession();
+    // Far-off expiries wake up at the timer limit and schedule again from there
+    refreshTimer = delay > MAX_TIMER_DELAY_MS ? setTimeout(scheduleRefresh, MAX_TIMER_DELAY_MS) : setTimeout(task, delay);
+  }
+
+  // Refresh the primary access token; concurrent callers share one request
+  function refreshSession(): Promise<AuthSession | null> {
+    if (pendingRefresh) return pendingRefresh;
+
+    const current = session;
+    const refresh = provider.refresh;
+    // Adopted sessions receive new tokens from the tab that owns them
+    if (!current || !refresh || current.adoptedFrom) return Promise.resolve(current);
+
+    pendingRefresh = serialize(async () => {
+      try {
+        const next = await refresh(session ?? current);
+        // The user may have signed out while the request was in flight
+        if (!session) return null;
+
+        session = next;
+        scopedTokens.clear();
+        scheduleRefresh();
+        notifyListeners();
+
+        const event: TokenRefreshedEvent = {
+          token: next.accessToken,
+          expiresAt: expiresAtOf(next),
+        };
+        eventBus.emit('auth:token-refreshed', event);
+        // MFEs mounted later are replayed auth:changed; keep its token current
+        eventBus.updateReplay('auth:changed', snapshot());
+        return next;
+      } catch (e) {
+        console.error(`[Auth] Token refresh via ${provider.name} failed:`, e);
+        // A token that has already lapsed can't be used, so end the session
+        const expiresAt = session ? expiresAtOf(session) : null;
+        if (expiresAt !== null && expiresAt <= Date.now()) {
+          setSession(null);
+        } else if (session && session === current) {
+          // Still usable: try again shortly, but before it lapses
+          if (refreshTimer) clearTimeout(refreshTimer);
+          const retryIn = expiresAt === null ? REFRESH_RETRY_MS : Math.min(REFRESH_RETRY_MS, expiresAt - Date.now());
+          refreshTimer = setTimeout(() => void refreshSession(), retryIn);
+        }
+        return session;
+      }
+    }).finally(() => {
+      pendingRefresh = null;
+    });
+
+    return pendingRefresh;
+  }
+
+  async function getScopedToken(scopes: string[]): Promise<string | null> {
+    const key = [...scopes].sort().join(' ');
+    const cached = scopedTokens.get(key);
+    if (cached && isFresh(cached.expiresAt)) return cached.accessToken;
+
+    const refresh = provider.refresh;
+    if (!session || !refresh) return session?.accessToken ?? null;
+
+    return serialize(async () => {
+      if (!session) return null;
+      const scoped = await refresh(session, scopes);
+      // Keep a rotated refresh token without touching the primary access token
+      if (scoped.refreshToken && scoped.refreshToken !== session.refreshToken) {
+        session = { ...session, refreshToken: scoped.refreshToken };
+      }
+      scopedTokens.set(key, { accessToken: scoped.accessToken, expiresAt: expiresAtOf(scoped) });
+      return scoped.accessToken;
+    });
+  }
+
+  // Keep tabs in step when auth events are relayed from another tab
+  eventBus.on(
+    'auth:changed',
+    (state, meta) => {
+      if (!meta.originTab) return;
+
+      if (!state.isAuthenticated && session) {
+        // Signed out elsewhere: end this tab's session without a second IdP logout
+        provider.forget();
+        setSession(null, { originTab: meta.originTab });
+      } else if (state.isAuthenticated && !session && state.user && state.token) {
+        // Signed in elsewhere: share that tab's user and access token
+        setSession(
+          { user: state.user, accessToken: state.token, adoptedFrom: meta.originTab },
+          { originTab: meta.originTab }
+        );
+      }
+    },
+    { replay: false }
+  );
+
+  eventBus.on(
+    'auth:token-refreshed',
+    (event, meta) => {
+      if (!session?.adoptedFrom || session.adoptedFrom !== meta.originTab) return;
+      session = { ...session, accessToken: event.token, expiresAt: event.expiresAt ?? undefined };
+      scheduleRefresh();
+      notifyListeners();
+      eventBus.updateReplay('auth:changed', snapshot());
+    },
+    { replay: false }
+  );
 
   return {
+    get provider() {
+      return provider;
+    },
     get user() {
       return user;
     },
@@ -17,27 +229,102 @@ function createAuth(): AuthContext {
     },
 
     login() {
-      // Mock login - replace with real auth provider
-      user = {
-        id: '1',
-        name: 'Demo User',
-        email: 'demo@example.com',
-        roles: ['user', 'admin'],
+      const returnTo = window.location.pathname + window.location.search;
+      provider
+        .login(returnTo)
+        .then((next) => {
+          // Redirect-based providers resolve null and finish in handleCallback
+          if (next) setSession(next);
+        })
+        .catch((e) => console.error(`[Auth] Login via ${provider.name} failed:`, e));
+    },
+
+    logout() {
+      const previous = session;
+      setSession(null);
+      provider
+        .logout(previous)
+        .catch((e) => console.error(`[Auth] Logout via ${provider.name} failed:`, e));
+    },
+
+    subscribe(listener: AuthListener) {
+      listeners.add(listener);
+      listener(snapshot());
+      return () => {
+        listeners.delete(listener);
       };
-      token = 'mock-jwt-token';
+    },
 
-      // Notify MFEs of auth change
-      eventBus.emit('auth:changed', { user, token, isAuthenticated: true });
+    async getAccessToken(scopes?: string[]) {
+      // Timers are throttled in background tabs, so check lapsed adoptions here too
+      if (!session || expireAdopted()) return null;
+      if (scopes?.length) return getScopedToken(scopes);
+      if (isFresh(expiresAtOf(session))) return session.accessToken;
+
+      const refreshed = await refreshSession();
+      return refreshed?.accessToken ?? null;
     },
 
-    logout() {
-      user = null;
-      token = null;
+    async refreshAccessToken() {
+      const refreshed = await refreshSession();
+      return refreshed?.accessToken ?? null;
+    },
+
+    async restore() {
+      const restored = await provider.restoreSession();
+      if (!restored) return;
 
-      // Notify MFEs of auth change
-      eventBus.emit('auth:changed', { user: null, token: null, isAuthenticated: false });
+      setSession(restored);
+      // A session restored after its token lapsed is refreshed before first use
+      if (!isFresh(expiresAtOf(restored))) {
+        await refreshSession();
+      }
+    },
+
+    isCallback(url: URL) {
+      return provider.isCallback(url);
+    },
+
+    // Completes a redirect login and returns the path the user started from
+    async handleCallback(url: URL) {
+      const { session: next, returnTo } = await provider.handleCallback(url);
+      setSession(next);
+      return returnTo;
     },
   };
 }
 
-export const auth = createAuth();
+// Use OIDC when an issuer is configured, otherwise fall back to the demo login
+function createDefaultProvider(): AuthProvider {
+  const issuer = import.meta.env.VITE_OIDC_ISSUER;
+  const clientId = import.meta.env.VITE_OIDC_CLIENT_ID;
+  if (issuer && clientId) {
+    return createOidcProvider({
+      issuer,
+      clientId,
+      scope: import.meta.env.VITE_OIDC_SCOPE,
+      rolesClaim: import.meta.env.VITE_OIDC_ROLES_CLAIM,
+    });
+  }
+  return createMockAuthProvider();
+}
+
+export const auth = createAuth(createDefaultProvider());
+
+// What MFEs receive as props.auth: the AuthContext surface only, so shell
+// internals (provider, callback handling, forced refresh) stay out of reach
+export const mfeAuth: AuthContext = {
+  get user() {
+    return auth.user;
+  },
+  get token() {
+    return auth.token;
+  },
+  get isAuthenticated() {
+    return auth.isAuthenticated;
+  },
+  login: () => auth.login(),
+  logout: () => auth.logout(),
+  subscribe: (listener) => auth.subscribe(listener),
+  getAccessToken: (scopes) => auth.getAccessToken(scopes),
+};
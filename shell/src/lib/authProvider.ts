@@ -0,0 +1,65 @@
+import type { User } from '../types/mfe';
+
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  idToken?: string;
+  refreshToken?: string;
+  // Epoch milliseconds, when known
+  expiresAt?: number;
+  // Set when the session was adopted from another tab, which keeps refreshing it
+  adoptedFrom?: string;
+}
+
+// Pluggable identity backend used by the shell's auth store.
+// login() either resolves a session directly or redirects the browser away
+// and resolves null; redirect-based providers complete in handleCallback().
+export interface AuthProvider {
+  name: string;
+  login: (returnTo: string) => Promise<AuthSession | null>;
+  logout: (session: AuthSession | null) => Promise<void>;
+  restoreSession: () => Promise<AuthSession | null>;
+  // Drop any locally persisted session without contacting the identity provider
+  forget: () => void;
+  isCallback: (url: URL) => boolean;
+  handleCallback: (url: URL) => Promise<{ session: AuthSession; returnTo: string }>;
+  // Exchange the session's refresh token for a new access token. When scopes
+  // are given, the returned access token is limited to those scopes.
+  refresh?: (session: AuthSession, scopes?: string[]) => Promise<AuthSession>;
+}
+
+// Demo provider that signs in a fixed user without any identity server
+export function createMockAuthProvider(user?: Partial<User>): AuthProvider {
+  return {
+    name: 'mock',
+
+    async login() {
+      return {
+        user: {
+          id: '1',
+          name: 'Demo User',
+          email: 'demo@example.com',
+          roles: ['user', 'admin'],
+          ...user,
+        },
+        accessToken: 'mock-jwt-token',
+      };
+    },
+
+    async logout() {},
+
+    async restoreSession() {
+      return null;
+    },
+
+    forget() {},
+
+    isCallback() {
+      return false;
+    },
+
+    async handleCallback() {
+      throw new Error('Mock auth provider does not use redirect callbacks');
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import type { CacheStorageTier } from '../types/mfe';
+
+// What a persistent tier stores per entry. expiresAt is absolute, so the TTL
+// carries over across reloads.
+export interface PersistedEntry {
+  value: unknown;
+  expiresAt: number | null;
+  // Start of the stale-while-revalidate window, for entries from getOrLoad()
+  staleAt?: number | null;
+  version?: number;
+  // Id of the signed-in user who wrote a non-shared entry, so the next user doesn't see it
+  owner?: string;
+}
+
+export interface CacheBackend {
+  readonly tier: Exclude<CacheStorageTier, 'memory'>;
+  load: () => Promise<Map<string, PersistedEntry>>;
+  // Resolves false when the entry could not be stored (quota exceeded, unserializable value)
+  save: (key: string, entry: PersistedEntry) => Promise<boolean>;
+  remove: (key: string) => Promise<void>;
+}
+
+const KEY_PREFIX = 'mfe-shell:cache:';
+const DB_NAME = 'mfe-shell-cache';
+const STORE_NAME = 'entries';
+
+function isQuotaError(e: unknown): boolean {
+  return (
+    e instanceof DOMException &&
+    (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
+
+export function isExpired(entry: PersistedEntry): boolean {
+  return entry.expiresAt !== null && Date.now() > entry.expiresAt;
+}
+
+function webStorageBackend(tier: 'session' | 'local', storage: Storage): CacheBackend {
+  function entries(): Map<string, PersistedEntry> {
+    const result = new Map<string, PersistedEntry>();
+    for (let i = 0; i < storage.length; i++) {
+      const storageKey = storage.key(i);
+      if (!storageKey?.startsWith(KEY_PREFIX)) continue;
+      try {
+        result.set(storageKey.slice(KEY_PREFIX.length), JSON.parse(storage.getItem(storageKey)!));
+      } catch {
+        // Corrupt entry: drop it below like an expired one
+        result.set(storageKey.slice(KEY_PREFIX.length), { value: null, expiresAt: 0 });
+      }
+    }
+    return result;
+  }
+
+  // Free space taken by entries whose TTL has already passed
+  function purgeExpired(): number {
+    let purged = 0;
+    entries().forEach((entry, key) => {
+      if (isExpired(entry)) {
+        storage.removeItem(KEY_PREFIX + key);
+        purged++;
+      }
+    });
+    return purged;
+  }
+
+  return {
+    tier,
+
+    async load() {
+      return entries();
+    },
+
+    async save(key, entry) {
+      let serialized: string;
+      try {
+        serialized = JSON.stringify(entry);
+      } catch (e) {
+        console.warn(`[StateCache] Value for "${key}" can't be serialized for ${tier} storage:`, e);
+        return false;
+      }
+
+      const write = () => {
+        try {
+          storage.setItem(KEY_PREFIX + key, serialized);
+          return true;
+        } catch (e) {
+          if (!isQuotaError(e)) {
+            console.warn(`[StateCache] Could not persist "${key}" to ${tier} storage:`, e);
+          }
+          return false;
+        }
+      };
+
+      // When storage is full, retry once after clearing expired entries
+      if (write() || (purgeExpired() > 0 && write())) return true;
+      console.warn(`[StateCache] ${tier} storage is full or unavailable; "${key}" was not persisted`);
+      return false;
+    },
+
+    async remove(key) {
+      storage.removeItem(KEY_PREFIX + key);
+    },
+  };
+}
+
+function indexedDbBackend(): CacheBackend {
+  let db: Promise<IDBDatabase> | null = null;
+
+  function open(): Promise<IDBDatabase> {
+    db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  }
+
+  async function transaction(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    const database = await open();
+    return new Promise((resolve, reject) => {
+      const tx = database.transaction(STORE_NAME, mode);
+      run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  return {
+    tier: 'indexeddb',
+
+    async load() {
+      const result = new Map<string, PersistedEntry>();
+      await transaction('readonly', (store) => {
+        const cursor = store.openCursor();
+        cursor.onsuccess = () => {
+          if (!cursor.result) return;
+          result.set(String(cursor.result.key), cursor.result.value as PersistedEntry);
+          cursor.result.continue();
+        };
+      });
+      return result;
+    },
+
+    async save(key, entry) {
+      try {
+        await transaction('readwrite', (store) => store.put(entry, key));
+        return true;
+      } catch (e) {
+        if (isQuotaError(e)) {
+          console.warn(`[StateCache] IndexedDB quota exceeded; "${key}" was not persisted`);
+        } else {
+          console.warn(`[StateCache] Could not persist "${key}" to IndexedDB:`, e);
+        }
+        return false;
+      }
+    },
+
+    async remove(key) {
+      await transaction('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+// Storage can be missing or throw on access (privacy modes, sandboxed iframes)
+function webStorage(get: () => Storage): Storage | null {
+  try {
+    return get() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// The persistent tiers this browser supports
+export function createCacheBackends(): Partial<Record<CacheStorageTier, CacheBackend>> {
+  const backends: Partial<Record<CacheStorageTier, CacheBackend>> = {};
+  const session = webStorage(() => window.sessionStorage);
+  const local = webStorage(() => window.localStorage);
+  if (session) backends.session = webStorageBackend('session', session);
+  if (local) backends.local = webStorageBackend('local', local);
+  if (typeof indexedDB !== 'undefined') backends.indexeddb = indexedDbBackend();
+  return backends;
+}
@@ -0,0 +1,73 @@
+import type { EventMeta } from '../types/mfe';
+import { eventBus } from './eventBus';
+
+export interface CrossTabOptions {
+  // Event names that are mirrored to other tabs; nothing crosses tabs by default
+  events: string[];
+  channelName?: string;
+}
+
+interface CrossTabMessage {
+  type: 'mfe-shell:event';
+  event: string;
+  payload: unknown;
+  source?: string;
+  originTab: string;
+}
+
+// Identifies this tab in relayed events so it never re-broadcasts its own
+export const tabId = crypto.randomUUID();
+
+function isCrossTabMessage(data: unknown): data is CrossTabMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as CrossTabMessage).type === 'mfe-shell:event' &&
+    typeof (data as CrossTabMessage).event === 'string'
+  );
+}
+
+// Mirror allow-listed events between tabs of the same origin. Events received
+// from another tab are re-emitted locally with meta.originTab set, and events
+// carrying an originTab are never broadcast again, so relays can't loop.
+// Returns a function that disconnects the transport.
+export function connectCrossTab(options: CrossTabOptions): () => void {
+  if (typeof BroadcastChannel === 'undefined') {
+    console.warn('[CrossTab] BroadcastChannel is not supported; events stay in this tab');
+    return () => {};
+  }
+
+  const allowed = new Set(options.events);
+  const channel = new BroadcastChannel(options.channelName ?? 'mfe-shell:events');
+
+  const untap = eventBus.tap((event, payload, meta) => {
+    if (!allowed.has(event) || meta.originTab) return;
+
+    const message: CrossTabMessage = {
+      type: 'mfe-shell:event',
+      event,
+      payload,
+      source: meta.source,
+      originTab: tabId,
+    };
+    try {
+      channel.postMessage(message);
+    } catch (e) {
+      // Payloads must be structured-cloneable (no functions, DOM nodes, ...)
+      console.warn(`[CrossTab] Could not relay ${event} to other tabs:`, e);
+    }
+  });
+
+  channel.onmessage = (message: MessageEvent) => {
+    const data: unknown = message.data;
+    if (!isCrossTabMessage(data) || data.originTab === tabId || !allowed.has(data.event)) return;
+
+    const meta: EventMeta = { source: data.source, originTab: data.originTab };
+    eventBus.emit(data.event, data.payload, meta);
+  };
+
+  return () => {
+    untap();
+    channel.close();
+  };
+}
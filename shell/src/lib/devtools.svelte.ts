@@ -0,0 +1,107 @@
+import { eventBus } from './eventBus';
+
+export interface EventLogEntry {
+  id: number;
+  timestamp: number;
+  event: string;
+  // Emitting MFE, or undefined for the shell itself
+  source?: string;
+  originTab?: string;
+  payload: unknown;
+  handlerCount: number;
+  // True when a middleware stopped the event before delivery
+  blocked: boolean;
+}
+
+const MAX_ENTRIES = 500;
+
+// Credentials in payloads (auth:changed, auth:token-refreshed) never reach
+// the panel or exported logs, which end up attached to bug reports
+const REDACTED_FIELDS = ['token', 'accessToken', 'refreshToken', 'idToken'];
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  // Only plain objects are walked; Dates, Maps and the like are kept as cloned
+  if (typeof value !== 'object' || value === null || Object.getPrototypeOf(value) !== Object.prototype) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      REDACTED_FIELDS.includes(key) && field != null ? '[redacted]' : redact(field),
+    ])
+  );
+}
+
+// Copy the payload as emitted so later mutations don't rewrite the log
+function snapshot(payload: unknown): unknown {
+  try {
+    return redact(structuredClone(payload));
+  } catch {
+    return String(payload);
+  }
+}
+
+function createEventLog() {
+  let entries = $state<EventLogEntry[]>([]);
+  let nextId = 1;
+  let stop: (() => void) | null = null;
+
+  return {
+    get entries() {
+      return entries;
+    },
+    get recording() {
+      return stop !== null;
+    },
+
+    // Record every emit passing through the bus, including blocked ones
+    start() {
+      if (stop) return;
+      stop = eventBus.use({
+        name: 'devtools',
+        emit: (ctx, next) => {
+          // Log what was delivered, after any later middleware transformed it
+          const delivered = next();
+          const logged = delivered ?? ctx;
+          const entry: EventLogEntry = {
+            id: nextId++,
+            timestamp: logged.timestamp,
+            event: logged.event,
+            source: logged.meta.source,
+            originTab: logged.meta.originTab,
+            payload: snapshot(logged.payload),
+            handlerCount: delivered?.handlerCount ?? 0,
+            blocked: !delivered,
+          };
+          entries = [...entries.slice(-(MAX_ENTRIES - 1)), entry];
+        },
+      });
+    },
+
+    stop() {
+      stop?.();
+      stop = null;
+    },
+
+    clear() {
+      entries = [];
+    },
+
+    // Download the given entries (the full log by default) as a JSON file
+    export(selection: EventLogEntry[] = entries) {
+      const blob = new Blob([JSON.stringify(selection, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `mfe-events-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+export const eventLog = createEventLog();
+
+// Start recording at boot in dev builds so the log covers startup traffic
+if (import.meta.env.DEV) {
+  eventLog.start();
+}
@@ -1,32 +1,374 @@
-type EventHandler = (payload: unknown) => void;
+import type {
+  DeliveredEventMeta,
+  EventHandler,
+  EventMeta,
+  EventPayload,
+  RequestErrorCode,
+  RequestHandler,
+  RequestOptions,
+  RequestPayload,
+  ResponsePayload,
+  ScopedEventBus,
+  SubscribeOptions,
+} from '../types/mfe';
+import { validatePayload } from './eventContracts';
+import { SubscriptionTracker } from './subscriptionTracker';
+
+type AnyHandler = (payload: unknown, meta: DeliveredEventMeta) => void;
+type AnyResponder = (payload: unknown, meta: EventMeta) => unknown;
+export type EmitTap = (event: string, payload: unknown, meta: EventMeta) => void;
+
+export interface EmitContext {
+  event: string;
+  payload: unknown;
+  meta: EventMeta;
+  timestamp: number;
+  // Filled in once the event reaches its handlers
+  delivered: boolean;
+  handlerCount: number;
+}
+
+export interface SubscribeContext {
+  // Exact event name or pattern ('navigation:*', '*')
+  event: string;
+  handler: AnyHandler;
+  // MFE subscribing through its scoped bus; undefined for the shell
+  subscriber?: string;
+}
+
+// Middleware sees each emit/subscription and passes it on with next(). Calling
+// next() with a new context transforms it; not calling next() blocks it.
+// next() returns the context that reached the end of the chain, or undefined
+// when a later middleware blocked it.
+export type EmitMiddleware = (ctx: EmitContext, next: (ctx?: EmitContext) => EmitContext | undefined) => void;
+export type SubscribeMiddleware = (
+  ctx: SubscribeContext,
+  next: (ctx?: SubscribeContext) => SubscribeContext | undefined
+) => void;
+
+export interface EventMiddleware {
+  name: string;
+  emit?: EmitMiddleware;
+  subscribe?: SubscribeMiddleware;
+}
+
+// Run ctx through the middleware chain, ending in the terminal step
+function runChain<C>(
+  steps: ((ctx: C, next: (ctx?: C) => C | undefined) => void)[],
+  ctx: C,
+  terminal: (ctx: C) => void
+): void {
+  const dispatch = (index: number, current: C): C | undefined => {
+    if (index === steps.length) {
+      terminal(current);
+      return current;
+    }
+    let reached: C | undefined;
+    steps[index](current, (next) => (reached = dispatch(index + 1, next ?? current)));
+    return reached;
+  };
+  dispatch(0, ctx);
+}
+
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+function isPattern(name: string): boolean {
+  return name === '*' || name.endsWith(':*');
+}
+
+// 'navigation:*' matches 'navigation:changed' and nested names like 'navigation:routes:added'
+function matchesPattern(pattern: string, event: string): boolean {
+  return pattern === '*' || event.startsWith(pattern.slice(0, -1));
+}
+
+export interface ChannelOptions {
+  // Deliver the most recent payload to new subscribers (same as replay: 1)
+  sticky?: boolean;
+  // Number of recent payloads to buffer and replay to new subscribers
+  replay?: number;
+}
+
+export class EventBusRequestError extends Error {
+  constructor(
+    public readonly code: RequestErrorCode,
+    public readonly event: string,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'EventBusRequestError';
+  }
+}
 
 class EventBus {
-  private handlers = new Map<string, Set<EventHandler>>();
-
-  emit(event: string, payload: unknown): void {
-    const handlers = this.handlers.get(event);
-    if (handlers) {
-      handlers.forEach((handler) => {
-        try {
-          handler(payload);
-        } catch (e) {
-          console.error(`[EventBus] Error in handler for ${event}:`, e);
-        }
-      });
+  // Subscribers keyed by exact event name or pattern
+  private handlers = new Map<string, Set<AnyHandler>>();
+  // Replay buffer size per event name, and the buffered emissions
+  private replaySizes = new Map<string, number>();
+  private history = new Map<string, { payload: unknown; meta: EventMeta }[]>();
+  // One responder per request name, with the MFE that registered it
+  private responders = new Map<string, { handler: AnyResponder; owner?: string }>();
+  // Subscriptions made through each MFE's scoped bus
+  private mfeSubscriptions = new SubscriptionTracker();
+  // Observers of every emitted event, e.g. transports relaying events elsewhere
+  private taps = new Set<EmitTap>();
+  private middleware: EventMiddleware[] = [];
+  // Payload contract checks are on by default in dev builds only
+  private validate = import.meta.env.DEV;
+
+  setValidation(enabled: boolean): void {
+    this.validate = enabled;
+  }
+
+  // Make an event replay its recent payloads to late subscribers
+  configureChannel(event: string, options: ChannelOptions): void {
+    const size = Math.max(options.replay ?? (options.sticky ? 1 : 0), 0);
+    if (size === 0) {
+      this.replaySizes.delete(event);
+      this.history.delete(event);
+      return;
+    }
+    this.replaySizes.set(event, size);
+    const buffer = this.history.get(event);
+    if (buffer) buffer.splice(0, Math.max(buffer.length - size, 0));
+  }
+
+  clearReplay(event?: string): void {
+    if (event === undefined) {
+      this.history.clear();
+    } else {
+      this.history.delete(event);
+    }
+  }
+
+  // Replace the latest replayed payload of a channel without delivering it,
+  // for state that changed in a way current subscribers already heard about
+  updateReplay<K extends string>(event: K, payload: EventPayload<K>): void {
+    const buffer = this.history.get(event);
+    if (!buffer?.length) return;
+    buffer[buffer.length - 1] = { ...buffer[buffer.length - 1], payload };
+  }
+
+  // Add middleware to the end of the chain; returns a function that removes it
+  use(middleware: EventMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  emit<K extends string>(event: K, payload: EventPayload<K>, meta: EventMeta = {}): void {
+    if (this.validate) {
+      const problem = validatePayload(event, payload);
+      if (problem) {
+        console.warn(
+          `[EventBus] Payload for ${event} from ${meta.source ?? 'shell'} does not match its contract: ${problem}`,
+          payload
+        );
+      }
     }
+
+    const steps = this.middleware.flatMap((m) => (m.emit ? [m.emit] : []));
+    const ctx: EmitContext = { event, payload, meta, timestamp: Date.now(), delivered: false, handlerCount: 0 };
+    runChain(steps, ctx, (final) => this.deliver(final));
   }
 
-  on(event: string, handler: EventHandler): () => void {
+  private deliver(ctx: EmitContext): void {
+    const { event, payload, meta } = ctx;
+    ctx.delivered = true;
+
+    const replaySize = this.replaySizes.get(event);
+    if (replaySize) {
+      const buffer = this.history.get(event) ?? [];
+      buffer.push({ payload, meta });
+      if (buffer.length > replaySize) buffer.shift();
+      this.history.set(event, buffer);
+    }
+
+    const subscribers = this.matchingHandlers(event);
+    ctx.handlerCount = subscribers.length;
+    subscribers.forEach(({ key, handler }) => {
+      // Skip handlers unsubscribed by an earlier handler during this emit
+      if (this.handlers.get(key)?.has(handler)) {
+        this.invoke(event, handler, payload, meta);
+      }
+    });
+
+    this.taps.forEach((tap) => {
+      try {
+        tap(event, payload, meta);
+      } catch (e) {
+        console.error(`[EventBus] Error in tap for ${event}:`, e);
+      }
+    });
+  }
+
+  // Observe every event after local delivery; returns a function to stop
+  tap(listener: EmitTap): () => void {
+    this.taps.add(listener);
+    return () => {
+      this.taps.delete(listener);
+    };
+  }
+
+  // Exact subscribers first, then namespace patterns from most to least
+  // specific, then '*'; each group in subscription order
+  private matchingHandlers(event: string): { key: string; handler: AnyHandler }[] {
+    const patterns = [...this.handlers.keys()]
+      .filter((key) => isPattern(key) && matchesPattern(key, event))
+      .sort((a, b) => b.length - a.length);
+    return [event, ...patterns].flatMap((key) =>
+      [...(this.handlers.get(key) ?? [])].map((handler) => ({ key, handler }))
+    );
+  }
+
+  private invoke(event: string, handler: AnyHandler, payload: unknown, meta: EventMeta): void {
+    try {
+      handler(payload, { ...meta, event });
+    } catch (e) {
+      console.error(`[EventBus] Error in handler for ${event}:`, e);
+    }
+  }
+
+  on<K extends string>(
+    event: K,
+    handler: EventHandler<K>,
+    options: SubscribeOptions = {},
+    subscriber?: string
+  ): () => void {
+    const steps = this.middleware.flatMap((m) => (m.subscribe ? [m.subscribe] : []));
+    let entry: AnyHandler | null = null;
+    runChain(steps, { event, handler: handler as AnyHandler, subscriber }, (final) => {
+      entry = final.handler;
+    });
+
+    // Blocked by middleware: nothing to unsubscribe
+    if (!entry) return () => {};
+    return this.subscribe(event, entry, options);
+  }
+
+  private subscribe(event: string, entry: AnyHandler, options: SubscribeOptions): () => void {
     if (!this.handlers.has(event)) {
       this.handlers.set(event, new Set());
     }
-    this.handlers.get(event)!.add(handler);
+    this.handlers.get(event)!.add(entry);
+
+    // Catch late subscribers up on sticky/replay channels
+    if (options.replay !== false) {
+      const channels = isPattern(event)
+        ? [...this.history.keys()].filter((name) => matchesPattern(event, name))
+        : [event];
+      channels.forEach((name) => {
+        const buffer = this.history.get(name) ?? [];
+        [...buffer].forEach(({ payload, meta }) => this.invoke(name, entry, payload, meta));
+      });
+    }
 
     // Return unsubscribe function
     return () => {
-      this.handlers.get(event)?.delete(handler);
+      const handlers = this.handlers.get(event);
+      handlers?.delete(entry);
+      // Drop empty sets so unused patterns aren't matched against every emit
+      if (handlers?.size === 0) this.handlers.delete(event);
+    };
+  }
+
+  request<K extends string>(
+    event: K,
+    payload: RequestPayload<K>,
+    options: RequestOptions = {},
+    meta: EventMeta = {}
+  ): Promise<ResponsePayload<K>> {
+    const responder = this.responders.get(event);
+    if (!responder) {
+      return Promise.reject(
+        new EventBusRequestError('no-handler', event, `No handler registered for ${event}`)
+      );
+    }
+
+    const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new EventBusRequestError('timeout', event, `Request ${event} timed out after ${timeout}ms`));
+      }, timeout);
+
+      // Run the handler asynchronously so sync throws and rejections are handled alike
+      Promise.resolve()
+        .then(() => responder.handler(payload, meta))
+        .then(
+          (response) => {
+            clearTimeout(timer);
+            resolve(response as ResponsePayload<K>);
+          },
+          (error) => {
+            clearTimeout(timer);
+            const reason = error instanceof Error ? error.message : String(error);
+            reject(
+              new EventBusRequestError(
+                'handler-error',
+                event,
+                `Handler for ${event}${responder.owner ? ` in ${responder.owner}` : ''} failed: ${reason}`,
+                { cause: error }
+              )
+            );
+          }
+        );
+    });
+  }
+
+  handle<K extends string>(event: K, handler: RequestHandler<K>, owner?: string): () => void {
+    const existing = this.responders.get(event);
+    if (existing) {
+      throw new Error(
+        `[EventBus] ${event} already has a handler${existing.owner ? ` registered by ${existing.owner}` : ''}`
+      );
+    }
+
+    const entry = { handler: handler as AnyResponder, owner };
+    this.responders.set(event, entry);
+
+    return () => {
+      if (this.responders.get(event) === entry) {
+        this.responders.delete(event);
+      }
     };
   }
+
+  // Bus handed to an MFE: tags its events with the MFE's ID and tracks its
+  // subscriptions so they can be dropped when the MFE unloads
+  forMfe(mfeId: string): ScopedEventBus {
+    const track = (off: () => void) => this.mfeSubscriptions.track(mfeId, off);
+
+    return {
+      mfeId,
+      emit: (event, payload) => this.emit(event, payload, { source: mfeId }),
+      on: (event, handler, options) => track(this.on(event, handler, options, mfeId)),
+      request: (event, payload, options) => this.request(event, payload, options, { source: mfeId }),
+      handle: (event, handler) => track(this.handle(event, handler, mfeId)),
+      listenerCount: () => this.mfeSubscriptions.count(mfeId),
+    };
+  }
+
+  // Remove every subscription an MFE still holds; returns how many were removed
+  disposeMfe(mfeId: string): number {
+    return this.mfeSubscriptions.dispose(mfeId);
+  }
+
+  // Subscriptions held by one MFE, or by everyone when no ID is given
+  listenerCount(mfeId?: string): number {
+    if (mfeId !== undefined) {
+      return this.mfeSubscriptions.count(mfeId);
+    }
+    let total = 0;
+    this.handlers.forEach((handlers) => (total += handlers.size));
+    return total;
+  }
 }
 
 export const eventBus = new EventBus();
+
+// State-like events: MFEs mounted after these fire still need the current value
+eventBus.configureChannel('auth:changed', { sticky: true });
+eventBus.configureChannel('flags:changed', { sticky: true });
+eventBus.configureChannel('settings:changed', { sticky: true });
+eventBus.configureChannel('preferences:changed', { sticky: true });
@@ -0,0 +1,99 @@
+import type { MfeEventName } from '../types/mfe';
+
+// Runtime checks mirroring the MfeEventMap contracts. Used in dev mode only,
+// so they stay shallow: enough to catch a wrong shape, not a full schema.
+
+type Validator = (payload: unknown) => string | null;
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): FieldType | 'null' | 'undefined' | 'other' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  if (type === 'string' || type === 'number' || type === 'boolean' || type === 'object' || type === 'undefined') {
+    return type;
+  }
+  return 'other';
+}
+
+// Build a validator from required and optional field types.
+// Field types may allow null with a trailing '?' (e.g. 'object?').
+function shape(
+  required: Record<string, `${FieldType}` | `${FieldType}?`>,
+  optional: Record<string, FieldType> = {}
+): Validator {
+  return (payload) => {
+    if (!isRecord(payload)) return `expected an object, got ${typeOf(payload)}`;
+
+    for (const [field, spec] of Object.entries(required)) {
+      const nullable = spec.endsWith('?');
+      const expected = spec.replace('?', '');
+      const actual = typeOf(payload[field]);
+      if (actual === expected || (nullable && actual === 'null')) continue;
+      return `"${field}" should be ${expected}${nullable ? ' or null' : ''}, got ${actual}`;
+    }
+
+    for (const [field, expected] of Object.entries(optional)) {
+      const actual = typeOf(payload[field]);
+      if (actual === 'undefined' || actual === expected) continue;
+      return `"${field}" should be ${expected} when present, got ${actual}`;
+    }
+
+    return null;
+  };
+}
+
+const NOTIFICATION_TYPES = ['info', 'success', 'warning', 'error'];
+
+const contracts: Partial<Record<MfeEventName, Validator>> = {
+  'auth:changed': shape({ user: 'object?', token: 'string?', isAuthenticated: 'boolean' }),
+  'auth:token-refreshed': shape({ token: 'string', expiresAt: 'number?' }),
+  'navigation:changed': shape({ path: 'string' }, { mfeId: 'string' }),
+  'navigation:routes-registered': shape({ mfeId: 'string', routes: 'array' }),
+  'navigation:routes-unregistered': shape({ mfeId: 'string' }),
+  'notification:show': (payload) => {
+    const problem = shape({ message: 'string' }, { type: 'string' })(payload);
+    if (problem) return problem;
+    const type = (payload as { type?: string }).type;
+    if (type !== undefined && !NOTIFICATION_TYPES.includes(type)) {
+      return `"type" should be one of ${NOTIFICATION_TYPES.join(', ')}, got "${type}"`;
+    }
+    return null;
+  },
+  'flags:changed': shape({ flags: 'object' }),
+  'http:error': shape({
+    mfeId: 'string',
+    method: 'string',
+    url: 'string',
+    status: 'number?',
+    correlationId: 'string',
+    message: 'string',
+  }),
+  'analytics:track': shape({ event: 'string' }, { properties: 'object' }),
+  'admin:broadcast': shape({ message: 'string' }, { sender: 'string' }),
+  'export:complete': shape({ format: 'string', options: 'object', timestamp: 'number' }),
+  'settings:changed': shape({
+    notifications: 'boolean',
+    darkMode: 'boolean',
+    autoSave: 'boolean',
+    language: 'string',
+  }),
+  'preferences:changed': shape({
+    fontSize: 'number',
+    accentColor: 'string',
+    animations: 'boolean',
+    compactMode: 'boolean',
+  }),
+  'cache:evicted': shape({ mfeId: 'string', key: 'string', reason: 'string' }),
+};
+
+// Returns a description of the first contract violation, or null when the
+// payload matches (or the event has no registered contract)
+export function validatePayload(event: string, payload: unknown): string | null {
+  const validator = contracts[event as MfeEventName];
+  return validator ? validator(payload) : null;
+}
@@ -0,0 +1,125 @@
+import type { FeatureFlags, MfeRegistration } from '../types/mfe';
+import { eventBus } from './eventBus';
+
+type FlagMap = Record<string, boolean>;
+
+// A flag provider contributes flag values. Providers are applied in order,
+// so later providers override earlier ones.
+export interface FlagProvider {
+  name: string;
+  load: () => FlagMap | Promise<FlagMap>;
+}
+
+const OVERRIDES_STORAGE_KEY = 'mfe-shell:flags';
+
+// Flags defined inline in code
+export function staticFlags(flags: FlagMap): FlagProvider {
+  return {
+    name: 'static',
+    load: () => ({ ...flags }),
+  };
+}
+
+// Flags served as a JSON object (e.g. /flags.json). A missing file means no flags.
+export function jsonFlags(url: string): FlagProvider {
+  return {
+    name: 'json',
+    load: async () => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) return {};
+        return (await response.json()) as FlagMap;
+      } catch (e) {
+        console.warn(`[FeatureFlags] Failed to load flags from ${url}:`, e);
+        return {};
+      }
+    },
+  };
+}
+
+// Per-browser overrides persisted in localStorage
+export function localStorageFlags(key = OVERRIDES_STORAGE_KEY): FlagProvider {
+  return {
+    name: 'localStorage',
+    load: () => {
+      try {
+        const raw = localStorage.getItem(key);
+        return raw ? (JSON.parse(raw) as FlagMap) : {};
+      } catch {
+        return {};
+      }
+    },
+  };
+}
+
+// URL overrides: ?ff=new-reports,beta-charts enables, ?ff=-new-reports disables
+export function queryFlags(param = 'ff'): FlagProvider {
+  return {
+    name: 'query',
+    load: () => {
+      const flags: FlagMap = {};
+      const params = new URLSearchParams(window.location.search);
+      for (const value of params.getAll(param)) {
+        for (const name of value.split(',').map((v) => v.trim()).filter(Boolean)) {
+          if (name.startsWith('-') || name.startsWith('!')) {
+            flags[name.slice(1)] = false;
+          } else {
+            flags[name] = true;
+          }
+        }
+      }
+      return flags;
+    },
+  };
+}
+
+function createFeatureFlags(providers: FlagProvider[]) {
+  let flags = $state<FlagMap>({});
+
+  return {
+    async load(): Promise<void> {
+      const merged: FlagMap = {};
+      for (const provider of providers) {
+        Object.assign(merged, await provider.load());
+      }
+      flags = merged;
+      eventBus.emit('flags:changed', { flags: { ...flags } });
+    },
+
+    isEnabled(flag: string): boolean {
+      return flags[flag] === true;
+    },
+
+    getAll(): FlagMap {
+      return { ...flags };
+    },
+
+    // Persist a local override and re-evaluate all providers
+    async setOverride(flag: string, enabled: boolean | null): Promise<void> {
+      const overrides = await localStorageFlags().load();
+      if (enabled === null) {
+        delete overrides[flag];
+      } else {
+        overrides[flag] = enabled;
+      }
+      localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+      await this.load();
+    },
+  };
+}
+
+export const featureFlags = createFeatureFlags([
+  jsonFlags('/flags.json'),
+  localStorageFlags(),
+  queryFlags(),
+]);
+
+export function isMfeEnabled(mfe: MfeRegistration): boolean {
+  return !mfe.featureFlag || featureFlags.isEnabled(mfe.featureFlag);
+}
+
+// Read-only view handed to MFEs through MfeProps
+export const flagsApi: FeatureFlags = {
+  isEnabled: (flag) => featureFlags.isEnabled(flag),
+  getAll: () => featureFlags.getAll(),
+};
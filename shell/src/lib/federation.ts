@@ -1,14 +1,60 @@
-import type { MfeRegistration, MfeLifecycle, MfeProps } from '../types/mfe';
+import type { MfeRegistration, MfeLifecycle, MfeProps, MfeRetryPolicy, MfeTimeouts } from '../types/mfe';
+import { eventBus } from './eventBus';
+import { stateCache } from './stateCache';
+
+const DEFAULT_TIMEOUTS: Required<MfeTimeouts> = {
+  load: 15000,
+  bootstrap: 10000,
+  mount: 10000,
+};
+
+// Lifecycle contract versions this shell can drive. MFEs declare theirs by
+// exporting lifecycleVersion; modules without one are treated as version 1.
+export const SUPPORTED_LIFECYCLE_VERSIONS = { min: 1, max: 1 };
+
+const REQUIRED_EXPORTS = ['bootstrap', 'mount', 'unmount'] as const;
+const OPTIONAL_EXPORTS = ['unload', 'suspend', 'resume'] as const;
+
+const DEFAULT_RETRY: Required<MfeRetryPolicy> = {
+  attempts: 3,
+  backoff: 500,
+};
+
+export type MfeLoadErrorCode =
+  | 'network' // The entry couldn't be fetched
+  | 'evaluation' // The entry was fetched but threw while evaluating
+  | 'missing-export' // The module lacks a required lifecycle function
+  | 'incompatible' // The module implements an unsupported lifecycle contract version
+  | 'timeout' // A phase didn't finish in time
+  | 'bootstrap' // bootstrap() threw
+  | 'mount'; // mount() threw
+
+export class MfeLoadError extends Error {
+  constructor(
+    public readonly code: MfeLoadErrorCode,
+    public readonly mfeId: string,
+    message: string,
+    public readonly phase: 'load' | 'bootstrap' | 'mount',
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'MfeLoadError';
+  }
+
+  // Only fetch problems may succeed on another try
+  get retryable(): boolean {
+    return this.code === 'network' || (this.code === 'timeout' && this.phase === 'load');
+  }
+}
 
 // Cache for loaded MFE modules
 const loadedMfes = new Map<string, MfeLifecycle>();
 const mountedMfes = new Map<string, MfeProps>();
 const loadedStylesheets = new Set<string>();
+// Stylesheet URL found for each MFE, shared with prefetching
+const stylesheetUrls = new Map<string, Promise<string | null>>();
 
-// Load CSS file for an MFE if it exists (Vue/Svelte extract CSS separately)
-async function loadMfeStyles(mfe: MfeRegistration): Promise<void> {
-  if (loadedStylesheets.has(mfe.id)) return;
-
+async function findStylesheet(mfe: MfeRegistration): Promise<string | null> {
   // Derive CSS path from JS entry
   // Try assets/ subfolder first (Vite default), then same directory as fallback
   const basePath = mfe.entry.substring(0, mfe.entry.lastIndexOf('/'));
@@ -22,41 +68,238 @@ async function loadMfeStyles(mfe: MfeRegistration): Promise<void> {
     try {
       // Check if CSS file exists
       const response = await fetch(cssPath, { method: 'HEAD' });
-      if (!response.ok) continue;
-
-      // Create and append link element, wait for it to load to prevent FOUC
-      await new Promise<void>((resolve, reject) => {
-        const link = document.createElement('link');
-        link.rel = 'stylesheet';
-        link.href = cssPath;
-        link.id = `mfe-styles-${mfe.id}`;
-        link.onload = () => {
-          console.log(`[Federation] Loaded styles for MFE: ${mfe.id} from ${cssPath}`);
-          resolve();
-        };
-        link.onerror = () => {
-          console.warn(`[Federation] Failed to load styles for MFE: ${mfe.id}`);
-          reject(new Error(`Failed to load CSS: ${cssPath}`));
-        };
-        document.head.appendChild(link);
-      });
-
-      loadedStylesheets.add(mfe.id);
-      return; // Successfully loaded, exit the loop
+      if (response.ok) return cssPath;
     } catch {
       // This path didn't work, try the next one
-      continue;
     }
   }
   // No CSS found at any path - that's okay, some MFEs don't have external CSS
+  return null;
+}
+
+// Only found URLs are remembered, so a missing stylesheet is probed again next time
+export function resolveStylesheet(mfe: MfeRegistration): Promise<string | null> {
+  let url = stylesheetUrls.get(mfe.id);
+  if (!url) {
+    url = findStylesheet(mfe).then((found) => {
+      if (!found) stylesheetUrls.delete(mfe.id);
+      return found;
+    });
+    stylesheetUrls.set(mfe.id, url);
+  }
+  return url;
+}
+
+// Load CSS file for an MFE if it exists (Vue/Svelte extract CSS separately)
+async function loadMfeStyles(mfe: MfeRegistration): Promise<void> {
+  if (loadedStylesheets.has(mfe.id)) return;
+
+  const cssPath = await resolveStylesheet(mfe);
+  if (!cssPath) return;
+
+  try {
+    // Create and append link element, wait for it to load to prevent FOUC
+    await new Promise<void>((resolve, reject) => {
+      const link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = cssPath;
+      link.id = `mfe-styles-${mfe.id}`;
+      link.onload = () => {
+        console.log(`[Federation] Loaded styles for MFE: ${mfe.id} from ${cssPath}`);
+        resolve();
+      };
+      link.onerror = () => {
+        console.warn(`[Federation] Failed to load styles for MFE: ${mfe.id}`);
+        link.remove();
+        reject(new Error(`Failed to load CSS: ${cssPath}`));
+      };
+      document.head.appendChild(link);
+    });
+
+    loadedStylesheets.add(mfe.id);
+  } catch {
+    // Render unstyled rather than fail the load; the next mount tries again
+    stylesheetUrls.delete(mfe.id);
+  }
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Reject with a timeout error if the task takes longer than ms. The task
+// itself can't be cancelled; its late result is ignored.
+function withTimeout<T>(
+  task: Promise<T>,
+  ms: number,
+  mfeId: string,
+  phase: MfeLoadError['phase']
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new MfeLoadError('timeout', mfeId, `${mfeId} did not finish ${phase} within ${ms}ms`, phase));
+    }, ms);
+    task.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Browsers report a failed module fetch as a TypeError with varying wording;
+// anything else was thrown by the module's own code
+function isFetchFailure(error: unknown): boolean {
+  return (
+    error instanceof TypeError &&
+    /dynamically imported module|importing a module script failed|error loading dynamically imported|failed to fetch/i.test(
+      error.message
+    )
+  );
+}
+
+async function importEntry(mfe: MfeRegistration, entry: string, round: number): Promise<MfeLifecycle> {
+  // Browsers cache failed module fetches, so retries need a distinct URL
+  const url = round === 0 ? entry : `${entry}${entry.includes('?') ? '&' : '?'}retry=${round}`;
+  const timeout = mfe.timeouts?.load ?? DEFAULT_TIMEOUTS.load;
+
+  let module: Record<string, unknown>;
+  try {
+    module = await withTimeout(import(/* @vite-ignore */ url), timeout, mfe.id, 'load');
+  } catch (error) {
+    if (error instanceof MfeLoadError) throw error;
+    const code = isFetchFailure(error) ? 'network' : 'evaluation';
+    throw new MfeLoadError(
+      code,
+      mfe.id,
+      code === 'network'
+        ? `Could not fetch ${mfe.id} from ${entry}: ${describe(error)}`
+        : `${mfe.id} threw while evaluating ${entry}: ${describe(error)}`,
+      'load',
+      { cause: error }
+    );
+  }
+
+  return validateLifecycle(mfe.id, entry, module);
+}
+
+function exportType(value: unknown): string {
+  return value === null ? 'null' : typeof value;
+}
+
+// Check a remote module against the lifecycle contract, so a missing or
+// mistyped export fails here with a clear message rather than as
+// "undefined is not a function" halfway through mounting
+function validateLifecycle(mfeId: string, entry: string, module: Record<string, unknown>): MfeLifecycle {
+  const version = module.lifecycleVersion ?? 1;
+  const { min, max } = SUPPORTED_LIFECYCLE_VERSIONS;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    throw new MfeLoadError(
+      'incompatible',
+      mfeId,
+      `${entry} exports lifecycleVersion ${JSON.stringify(version)}; expected an integer`,
+      'load'
+    );
+  }
+  if (version < min || version > max) {
+    const supported = min === max ? `version ${min}` : `versions ${min} to ${max}`;
+    throw new MfeLoadError(
+      'incompatible',
+      mfeId,
+      `${mfeId} implements lifecycle contract version ${version}, but this shell supports ${supported}. ` +
+        (version > max ? 'Update the shell or pin an older build of the MFE.' : 'Rebuild the MFE against the current contract.'),
+      'load'
+    );
+  }
+
+  const problems = [
+    ...REQUIRED_EXPORTS.filter((name) => module[name] === undefined).map((name) => `${name} is not exported`),
+    ...[...REQUIRED_EXPORTS, ...OPTIONAL_EXPORTS]
+      .filter((name) => module[name] !== undefined && typeof module[name] !== 'function')
+      .map((name) => `${name} is a ${exportType(module[name])}, not a function`),
+  ];
+  if (problems.length > 0) {
+    // A common mistake is exporting the lifecycle as a default object
+    const fromDefault = module.default as Record<string, unknown> | undefined;
+    const hint =
+      typeof fromDefault?.mount === 'function' ? ' (found on the default export; use named exports instead)' : '';
+    throw new MfeLoadError('missing-export', mfeId, `${entry}: ${problems.join('; ')}${hint}`, 'load');
+  }
+
+  return {
+    bootstrap: module.bootstrap,
+    mount: module.mount,
+    unmount: module.unmount,
+    unload: module.unload,
+    suspend: module.suspend,
+    resume: module.resume,
+  } as MfeLifecycle;
+}
+
+// Resolve after ms, or reject as soon as the signal aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+// Try the entry and each fallback in turn. Fetch failures and load timeouts
+// start another round after an exponential backoff; other errors don't.
+// Aborting the signal ends the retries.
+async function importLifecycle(mfe: MfeRegistration, signal?: AbortSignal): Promise<MfeLifecycle> {
+  const entries = [mfe.entry, ...(mfe.fallbackEntries ?? [])];
+  const attempts = Math.max(mfe.retry?.attempts ?? DEFAULT_RETRY.attempts, 1);
+  const backoff = mfe.retry?.backoff ?? DEFAULT_RETRY.backoff;
+
+  let lastError: MfeLoadError | null = null;
+  for (let round = 0; round < attempts; round++) {
+    if (round > 0) {
+      const delay = backoff * 2 ** (round - 1);
+      console.warn(`[Federation] Retrying MFE: ${mfe.id} in ${delay}ms (attempt ${round + 1} of ${attempts})`);
+      await wait(delay, signal);
+    }
+
+    let retryable = false;
+    for (const entry of entries) {
+      signal?.throwIfAborted();
+      try {
+        console.log(`[Federation] Loading MFE: ${mfe.id} from ${entry}`);
+        return await importEntry(mfe, entry, round);
+      } catch (error) {
+        lastError = error as MfeLoadError;
+        retryable ||= lastError.retryable;
+        console.warn(`[Federation] ${lastError.message}`);
+      }
+    }
+    if (!retryable) break;
+  }
+  throw lastError!;
 }
 
 export async function loadMfe(
   mfe: MfeRegistration,
   container: HTMLElement,
-  props: Omit<MfeProps, 'container'>
+  props: Omit<MfeProps, 'container'>,
+  // Aborting stops a pending retry and skips the mount; a running import or
+  // bootstrap still finishes, so the next load can reuse it
+  signal?: AbortSignal
 ): Promise<void> {
   const fullProps: MfeProps = { ...props, container };
+  const timeouts = { ...DEFAULT_TIMEOUTS, ...mfe.timeouts };
 
   // Always ensure CSS is loaded (it may have been removed on unmount)
   await loadMfeStyles(mfe);
@@ -64,36 +307,101 @@ export async function loadMfe(
   let lifecycle = loadedMfes.get(mfe.id);
 
   if (!lifecycle) {
-    console.log(`[Federation] Loading MFE: ${mfe.id} from ${mfe.entry}`);
-
     try {
-      // Dynamically import the MFE's remote entry
-      const module = await import(/* @vite-ignore */ mfe.entry);
-
-      lifecycle = {
-        bootstrap: module.bootstrap,
-        mount: module.mount,
-        unmount: module.unmount,
-        unload: module.unload,
-      };
+      const imported = await importLifecycle(mfe, signal);
 
-      loadedMfes.set(mfe.id, lifecycle);
+      // Call bootstrap once per MFE; a failed bootstrap is retried on the next load
+      await withTimeout(
+        Promise.resolve().then(() => imported.bootstrap(fullProps)),
+        timeouts.bootstrap,
+        mfe.id,
+        'bootstrap'
+      ).catch((error) => {
+        if (error instanceof MfeLoadError) throw error;
+        throw new MfeLoadError('bootstrap', mfe.id, `${mfe.id} failed to bootstrap: ${describe(error)}`, 'bootstrap', {
+          cause: error,
+        });
+      });
 
-      // Call bootstrap once per MFE
-      await lifecycle.bootstrap(fullProps);
+      lifecycle = imported;
+      loadedMfes.set(mfe.id, lifecycle);
       console.log(`[Federation] Bootstrapped MFE: ${mfe.id}`);
     } catch (error) {
-      console.error(`[Federation] Failed to load MFE: ${mfe.id}`, error);
+      if (!signal?.aborted) console.error(`[Federation] Failed to load MFE: ${mfe.id}`, error);
       throw error;
     }
   }
 
-  // Mount the MFE
-  await lifecycle.mount(fullProps);
+  // Mount the MFE, unless the load was called off in the meantime
+  signal?.throwIfAborted();
+  const mounting = lifecycle;
+  const mountTask = Promise.resolve().then(() => mounting.mount(fullProps));
+  await withTimeout(mountTask, timeouts.mount, mfe.id, 'mount').catch((error) => {
+    console.error(`[Federation] Failed to mount MFE: ${mfe.id}`, error);
+    if (error instanceof MfeLoadError) {
+      // The timed-out mount keeps running; undo it if it finishes, unless the
+      // MFE was mounted again in the meantime
+      mountTask.then(
+        () => {
+          if (mountedMfes.has(mfe.id)) return;
+          console.warn(`[Federation] Unmounting MFE that finished mounting after its timeout: ${mfe.id}`);
+          return mounting.unmount(fullProps);
+        },
+        () => {}
+      ).catch((e) => console.error(`[Federation] Failed to unmount MFE: ${mfe.id}`, e));
+      throw error;
+    }
+    throw new MfeLoadError('mount', mfe.id, `${mfe.id} failed to mount: ${describe(error)}`, 'mount', {
+      cause: error,
+    });
+  });
   mountedMfes.set(mfe.id, fullProps);
   console.log(`[Federation] Mounted MFE: ${mfe.id}`);
 }
 
+export function isMfeLoaded(mfeId: string): boolean {
+  return loadedMfes.has(mfeId);
+}
+
+export function isMfeMounted(mfeId: string): boolean {
+  return mountedMfes.has(mfeId);
+}
+
+// A hidden MFE's stylesheet is disabled so it can't restyle the visible one
+function setStylesheetEnabled(mfeId: string, enabled: boolean): void {
+  const link = document.getElementById(`mfe-styles-${mfeId}`) as HTMLLinkElement | null;
+  if (link) link.disabled = !enabled;
+}
+
+// Hide a keepAlive MFE without unmounting it
+export async function suspendMfe(mfeId: string): Promise<void> {
+  const lifecycle = loadedMfes.get(mfeId);
+  const props = mountedMfes.get(mfeId);
+  if (!lifecycle || !props) return;
+
+  setStylesheetEnabled(mfeId, false);
+  try {
+    await lifecycle.suspend?.(props);
+    console.log(`[Federation] Suspended MFE: ${mfeId}`);
+  } catch (error) {
+    console.error(`[Federation] Failed to suspend MFE: ${mfeId}`, error);
+  }
+}
+
+export async function resumeMfe(mfeId: string): Promise<void> {
+  const lifecycle = loadedMfes.get(mfeId);
+  const props = mountedMfes.get(mfeId);
+  if (!lifecycle || !props) return;
+
+  setStylesheetEnabled(mfeId, true);
+  try {
+    await lifecycle.resume?.(props);
+    console.log(`[Federation] Resumed MFE: ${mfeId}`);
+  } catch (error) {
+    console.error(`[Federation] Failed to resume MFE: ${mfeId}`, error);
+  }
+}
+
 export async function unloadMfe(mfeId: string): Promise<void> {
   const lifecycle = loadedMfes.get(mfeId);
   const props = mountedMfes.get(mfeId);
@@ -108,6 +416,16 @@ export async function unloadMfe(mfeId: string): Promise<void> {
     }
   }
 
+  // Drop any event and cache subscriptions the MFE didn't clean up itself
+  const leaked = eventBus.disposeMfe(mfeId);
+  if (leaked > 0) {
+    console.log(`[Federation] Removed ${leaked} event subscription(s) left by MFE: ${mfeId}`);
+  }
+  const leakedCache = stateCache.disposeMfe(mfeId);
+  if (leakedCache > 0) {
+    console.log(`[Federation] Removed ${leakedCache} cache subscription(s) left by MFE: ${mfeId}`);
+  }
+
   // Clean up stylesheet if it was loaded
   if (loadedStylesheets.has(mfeId)) {
     const link = document.getElementById(`mfe-styles-${mfeId}`);
@@ -0,0 +1,138 @@
+import type { HttpClient, HttpErrorEvent, HttpRequestOptions } from '../types/mfe';
+import { auth } from './auth.svelte';
+import { eventBus } from './eventBus';
+
+const CORRELATION_HEADER = 'X-Correlation-ID';
+
+// Origins besides the shell's own that receive the bearer token, from a
+// comma-separated VITE_API_ORIGINS. Requests anywhere else go out without it.
+const API_ORIGINS = (import.meta.env.VITE_API_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null,
+    public readonly correlationId: string,
+    public readonly response?: Response
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function isTrustedOrigin(url: string): boolean {
+  try {
+    const { origin } = new URL(url, window.location.href);
+    return origin === window.location.origin || API_ORIGINS.includes(origin);
+  } catch {
+    return false;
+  }
+}
+
+function createCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+async function parseBody<T>(response: Response): Promise<T> {
+  if (response.status === 204) return undefined as T;
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (contentType.includes('application/json')) {
+    return response.json() as Promise<T>;
+  }
+  return response.text() as Promise<T>;
+}
+
+// HTTP client handed to an MFE: attaches the shell's bearer token (for the
+// shell origin and VITE_API_ORIGINS only), retries once
+// after a refresh on 401, tags every request with a correlation ID and reports
+// failures on the event bus as 'http:error'.
+export function createHttpClient(mfeId: string): HttpClient {
+  function reportError(event: Omit<HttpErrorEvent, 'mfeId'>): void {
+    eventBus.emit('http:error', { mfeId, ...event } satisfies HttpErrorEvent);
+  }
+
+  async function send(
+    url: string,
+    options: HttpRequestOptions = {}
+  ): Promise<{ response: Response; correlationId: string }> {
+    const { scopes, skipAuth, ...init } = options;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = new Headers(init.headers);
+    const correlationId = headers.get(CORRELATION_HEADER) ?? createCorrelationId();
+    headers.set(CORRELATION_HEADER, correlationId);
+
+    const token = skipAuth || !isTrustedOrigin(url) ? null : await auth.getAccessToken(scopes);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, method, headers });
+
+      // The API rejected our token: refresh once and retry with the new one
+      if (response.status === 401 && token && !scopes?.length) {
+        const refreshed = await auth.refreshAccessToken();
+        if (refreshed && refreshed !== token) {
+          headers.set('Authorization', `Bearer ${refreshed}`);
+          response = await fetch(url, { ...init, method, headers });
+        }
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Network request failed';
+      reportError({ method, url, status: null, correlationId, message });
+      throw new HttpError(message, null, correlationId);
+    }
+
+    if (!response.ok) {
+      reportError({
+        method,
+        url,
+        status: response.status,
+        correlationId,
+        message: `${method} ${url} failed with ${response.status} ${response.statusText}`,
+      });
+    }
+    return { response, correlationId };
+  }
+
+  async function request<T>(url: string, options: HttpRequestOptions): Promise<T> {
+    const { response, correlationId } = await send(url, options);
+    if (!response.ok) {
+      const method = (options.method ?? 'GET').toUpperCase();
+      throw new HttpError(
+        `${method} ${url} failed with ${response.status} ${response.statusText}`,
+        response.status,
+        correlationId,
+        response
+      );
+    }
+    return parseBody<T>(response);
+  }
+
+  function withBody(method: string, body: unknown, options: HttpRequestOptions = {}): HttpRequestOptions {
+    if (body === undefined) return { ...options, method };
+    if (
+      typeof body === 'string' ||
+      body instanceof FormData ||
+      body instanceof Blob ||
+      body instanceof URLSearchParams
+    ) {
+      return { ...options, method, body };
+    }
+
+    const headers = new Headers(options.headers);
+    if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+    return { ...options, method, headers, body: JSON.stringify(body) };
+  }
+
+  return {
+    fetch: async (url, options) => (await send(url, options)).response,
+    get: (url, options) => request(url, { ...options, method: 'GET' }),
+    post: (url, body, options) => request(url, withBody('POST', body, options)),
+    put: (url, body, options) => request(url, withBody('PUT', body, options)),
+    patch: (url, body, options) => request(url, withBody('PATCH', body, options)),
+    delete: (url, options) => request(url, { ...options, method: 'DELETE' }),
+  };
+}
@@ -0,0 +1,33 @@
+// Minimal JWT helpers. These decode claims only; signature verification is
+// the job of the API that receives the token.
+
+export type JwtClaims = Record<string, unknown> & {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  nonce?: string;
+};
+
+function base64UrlDecode(input: string): string {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeJwt(token: string): JwtClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    return JSON.parse(base64UrlDecode(parts[1])) as JwtClaims;
+  } catch {
+    return null;
+  }
+}
@@ -1,15 +1,80 @@
 import type { MfeManifest } from '../types/mfe';
+import { mergeManifests } from './manifestLayers';
+import { applyOverrideParams, getManifestOverrides } from './manifestOverrides';
+import { formatIssue, validateManifest, type ManifestIssue } from './manifestSchema';
 
-const MANIFEST_URL = import.meta.env.DEV
-  ? '/manifest.dev.json'
-  : '/manifest.json';
+const BASE_URL = '/manifest.json';
 
-export async function loadManifest(url?: string): Promise<MfeManifest> {
-  const response = await fetch(url ?? MANIFEST_URL);
+// Environment overlays applied over the base manifest, in order. Set
+// VITE_MANIFEST_OVERLAYS to a comma-separated list to replace the default.
+const OVERLAY_URLS = import.meta.env.VITE_MANIFEST_OVERLAYS !== undefined
+  ? import.meta.env.VITE_MANIFEST_OVERLAYS.split(',').map((url) => url.trim()).filter(Boolean)
+  : import.meta.env.DEV
+    ? ['/manifest.dev.json']
+    : [];
+
+export class ManifestValidationError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly issues: ManifestIssue[]
+  ) {
+    super(`${url} has ${issues.length} error${issues.length === 1 ? '' : 's'}`);
+    this.name = 'ManifestValidationError';
+  }
+}
+
+async function fetchLayer(url: string): Promise<unknown> {
+  const response = await fetch(url);
   if (!response.ok) {
-    throw new Error(`Failed to load manifest: ${response.statusText}`);
+    throw new Error(`Failed to load manifest ${url}: ${response.statusText}`);
+  }
+  try {
+    return await response.json();
+  } catch (e) {
+    throw new Error(`${url} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+// Entry overrides for MFEs in the manifest, as one more overlay. Fallbacks are
+// dropped so a stopped dev server fails visibly instead of loading the deployed build.
+function overrideLayer(manifest: unknown): { mfes: Record<string, unknown>[] } {
+  const mfes = (manifest as Partial<MfeManifest>).mfes ?? [];
+  const layer: Record<string, unknown>[] = [];
+  for (const [id, entry] of Object.entries(getManifestOverrides())) {
+    if (!mfes.some((m) => m.id === id)) {
+      console.warn(`[Manifest] Ignoring override for unknown MFE: ${id}`);
+      continue;
+    }
+    console.warn(`[Manifest] ${id} is overridden to load from ${entry}`);
+    layer.push({ id, entry, fallbackEntries: [] });
+  }
+  return { mfes: layer };
+}
+
+export async function loadManifest(): Promise<MfeManifest> {
+  applyOverrideParams();
+  const [base, ...overlays] = await Promise.all([BASE_URL, ...OVERLAY_URLS].map(fetchLayer));
+  const source = [BASE_URL, ...OVERLAY_URLS].join(' + ');
+
+  let data = base;
+  const issues: ManifestIssue[] = [];
+  overlays.forEach((overlay, i) => {
+    const merged = mergeManifests(data, overlay, OVERLAY_URLS[i]);
+    data = merged.manifest;
+    issues.push(...merged.issues);
+  });
+  data = mergeManifests(data, overrideLayer(data), 'overrides').manifest;
+  issues.push(...validateManifest(data));
+
+  for (const issue of issues.filter((i) => i.severity === 'warning')) {
+    console.warn(`[Manifest] ${source}: ${formatIssue(issue)}`);
+  }
+  const errors = issues.filter((i) => i.severity === 'error');
+  if (errors.length > 0) {
+    throw new ManifestValidationError(source, errors);
   }
-  return response.json();
+  return data as MfeManifest;
 }
 
+export { clearManifestOverrides, getManifestOverrides } from './manifestOverrides';
 export type { MfeManifest, MfeRegistration } from '../types/mfe';
@@ -0,0 +1,60 @@
+// Merging of manifest layers: a base manifest plus overlays that only list
+// what differs. Like manifestSchema.ts it has no runtime imports, so the
+// Node manifest check can apply the same merge.
+import type { ManifestIssue } from './manifestSchema';
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Objects merge key by key; arrays and scalars from the overlay replace the base
+function deepMerge(base: unknown, overlay: unknown): unknown {
+  if (!isObject(base) || !isObject(overlay)) return overlay;
+  const merged: Json = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    merged[key] = key in base ? deepMerge(base[key], value) : value;
+  }
+  return merged;
+}
+
+// Apply an overlay to a manifest. Overlay MFEs are merged into the base MFE
+// with the same id, or appended when the id is new (they must then be
+// complete registrations). Everything else merges like plain objects.
+export function mergeManifests(
+  base: unknown,
+  overlay: unknown,
+  source: string
+): { manifest: unknown; issues: ManifestIssue[] } {
+  const issues: ManifestIssue[] = [];
+  if (!isObject(base)) return { manifest: base, issues };
+  if (!isObject(overlay)) {
+    issues.push({ severity: 'error', path: source, message: 'overlay must be a JSON object' });
+    return { manifest: base, issues };
+  }
+
+  const { mfes: overlayMfes, ...rest } = overlay;
+  const manifest = deepMerge(base, rest) as Json;
+  if (overlayMfes === undefined) return { manifest, issues };
+  if (!Array.isArray(overlayMfes) || !Array.isArray(base.mfes)) {
+    issues.push({ severity: 'error', path: `${source}: mfes`, message: 'must be an array' });
+    return { manifest, issues };
+  }
+
+  const mfes = [...base.mfes];
+  overlayMfes.forEach((mfe, i) => {
+    if (!isObject(mfe) || typeof mfe.id !== 'string') {
+      issues.push({ severity: 'error', path: `${source}: mfes[${i}]`, message: 'must be an object with an id' });
+      return;
+    }
+    const index = mfes.findIndex((m) => isObject(m) && m.id === mfe.id);
+    if (index === -1) {
+      mfes.push(mfe);
+    } else {
+      mfes[index] = deepMerge(mfes[index], mfe);
+    }
+  });
+  manifest.mfes = mfes;
+  return { manifest, issues };
+}
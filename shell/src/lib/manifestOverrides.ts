@@ -0,0 +1,92 @@
+// Developer overrides: point single MFEs at a local dev server while the rest
+// load as the deployed manifest says.
+//
+//   ?mfe-override=react-example@http://localhost:5001/remoteEntry.js   set
+//   ?mfe-override=react-example                                        remove one
+//   ?mfe-override=clear                                                remove all
+//
+// The parameter may be repeated. Overrides are kept in localStorage until removed.
+
+const STORAGE_KEY = 'mfe-shell:manifest-overrides';
+const QUERY_PARAM = 'mfe-override';
+
+// A link that swaps in arbitrary code would be an XSS vector, so overrides
+// may only point at loopback hosts or origins explicitly allowed at build time
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const ALLOWED_ORIGINS = (import.meta.env.VITE_MFE_OVERRIDE_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+// MFE id -> entry URL
+export type ManifestOverrides = Record<string, string>;
+
+function isAllowedEntry(entry: string): boolean {
+  try {
+    const url = new URL(entry);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+    return LOOPBACK_HOSTS.includes(url.hostname) || ALLOWED_ORIGINS.includes(url.origin);
+  } catch {
+    return false;
+  }
+}
+
+function read(): ManifestOverrides {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+function write(overrides: ManifestOverrides): void {
+  try {
+    if (Object.keys(overrides).length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    }
+  } catch (e) {
+    console.warn('[Manifest] Could not store MFE overrides:', e);
+  }
+}
+
+// Move ?mfe-override parameters into storage and remove them from the address bar
+export function applyOverrideParams(): void {
+  const url = new URL(window.location.href);
+  const params = url.searchParams.getAll(QUERY_PARAM);
+  if (params.length === 0) return;
+
+  let overrides = read();
+  for (const param of params) {
+    if (param === 'clear') {
+      overrides = {};
+      continue;
+    }
+    const at = param.indexOf('@');
+    const id = at === -1 ? param : param.slice(0, at);
+    const entry = at === -1 ? '' : param.slice(at + 1);
+    if (!entry) {
+      delete overrides[id];
+    } else if (isAllowedEntry(entry)) {
+      overrides[id] = entry;
+    } else {
+      console.warn(`[Manifest] Ignoring override for ${id}: ${entry} is not an allowed override origin`);
+    }
+  }
+  write(overrides);
+
+  url.searchParams.delete(QUERY_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+}
+
+export function getManifestOverrides(): ManifestOverrides {
+  return Object.fromEntries(
+    Object.entries(read()).filter(([, entry]) => typeof entry === 'string' && isAllowedEntry(entry))
+  );
+}
+
+export function clearManifestOverrides(): void {
+  write({});
+}
@@ -0,0 +1,268 @@
+// Runtime validation of manifest.json. Kept free of runtime imports so
+// scripts/validate-manifest.mjs can run the same checks under Node.
+
+export interface ManifestIssue {
+  severity: 'error' | 'warning';
+  // Location in the manifest, e.g. "mfes[2].menu.children[0].path"
+  path: string;
+  message: string;
+}
+
+type Json = Record<string, unknown>;
+
+const MANIFEST_FIELDS = ['version', 'mfes', 'sharedState', 'keepAliveLimit'];
+const MFE_FIELDS = [
+  'id',
+  'name',
+  'entry',
+  'fallbackEntries',
+  'route',
+  'activeWhen',
+  'menu',
+  'permissions',
+  'featureFlag',
+  'cacheQuota',
+  'keepAlive',
+  'prefetch',
+  'timeouts',
+  'retry',
+];
+const MENU_FIELDS = ['label', 'icon', 'order', 'section', 'children'];
+const MENU_CHILD_FIELDS = ['label', 'path', 'icon', 'permissions'];
+const PREFETCH_HINTS = ['eager', 'idle', 'intent', 'none'];
+const STORAGE_TIERS = ['memory', 'session', 'local', 'indexeddb'];
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// Entries are imported from the shell's origin, so they must be http(s) URLs
+// or root-relative paths; a bare relative path would resolve against the current route
+function entryProblem(entry: string): string | null {
+  if (entry.trim() !== entry || /\s/.test(entry)) return 'must not contain whitespace';
+  if (/^[a-z][a-z0-9+.-]*:/i.test(entry)) {
+    let url: URL;
+    try {
+      url = new URL(entry);
+    } catch {
+      return 'is not a valid URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return `uses unsupported protocol "${url.protocol}"`;
+    return null;
+  }
+  if (entry.startsWith('//')) return 'must include a protocol (http: or https:)';
+  if (!entry.startsWith('/')) return 'must be an absolute URL or start with "/"';
+  return null;
+}
+
+export function validateManifest(data: unknown): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  // Unknown fields are usually typos ("entyr"), which otherwise fail silently
+  const checkFields = (object: Json, known: string[], path: string) => {
+    for (const key of Object.keys(object)) {
+      if (!known.includes(key)) warning(path ? `${path}.${key}` : key, 'unknown field');
+    }
+  };
+  const checkPositive = (value: unknown, path: string) => {
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      error(path, 'must be a positive number');
+    }
+  };
+
+  if (!isObject(data)) {
+    error('', 'manifest must be a JSON object');
+    return issues;
+  }
+  checkFields(data, MANIFEST_FIELDS, '');
+
+  if (typeof data.version !== 'string' || data.version === '') error('version', 'is required and must be a string');
+  if (!Array.isArray(data.mfes)) {
+    error('mfes', 'is required and must be an array');
+    return issues;
+  }
+  if (
+    data.keepAliveLimit !== undefined &&
+    (typeof data.keepAliveLimit !== 'number' || !Number.isInteger(data.keepAliveLimit) || data.keepAliveLimit < 0)
+  ) {
+    error('keepAliveLimit', 'must be a non-negative integer');
+  }
+
+  const ids = new Map<string, number>();
+  // Every route prefix, for the collision check below
+  const prefixes: { prefix: string; index: number; id: string; path: string }[] = [];
+
+  data.mfes.forEach((mfe, index) => {
+    const at = `mfes[${index}]`;
+    if (!isObject(mfe)) {
+      error(at, 'must be an object');
+      return;
+    }
+    checkFields(mfe, MFE_FIELDS, at);
+
+    const id = typeof mfe.id === 'string' ? mfe.id : '';
+    if (!id) {
+      error(`${at}.id`, 'is required and must be a non-empty string');
+    } else if (ids.has(id)) {
+      error(`${at}.id`, `duplicate id "${id}" (also used by mfes[${ids.get(id)}])`);
+    } else {
+      ids.set(id, index);
+    }
+
+    if (typeof mfe.name !== 'string' || mfe.name === '') error(`${at}.name`, 'is required and must be a string');
+
+    if (typeof mfe.entry !== 'string' || mfe.entry === '') {
+      error(`${at}.entry`, 'is required and must be a string');
+    } else {
+      const problem = entryProblem(mfe.entry);
+      if (problem) error(`${at}.entry`, `"${mfe.entry}" ${problem}`);
+    }
+    if (mfe.fallbackEntries !== undefined) {
+      if (!isStringArray(mfe.fallbackEntries)) {
+        error(`${at}.fallbackEntries`, 'must be an array of strings');
+      } else {
+        mfe.fallbackEntries.forEach((entry, i) => {
+          const problem = entryProblem(entry);
+          if (problem) error(`${at}.fallbackEntries[${i}]`, `"${entry}" ${problem}`);
+        });
+      }
+    }
+
+    const routes: string[] = [];
+    if (typeof mfe.route !== 'string' || !mfe.route.startsWith('/')) {
+      error(`${at}.route`, 'is required and must start with "/"');
+    } else {
+      routes.push(mfe.route);
+      prefixes.push({ prefix: mfe.route, index, id, path: `${at}.route` });
+    }
+    if (mfe.activeWhen !== undefined) {
+      if (!isStringArray(mfe.activeWhen)) {
+        error(`${at}.activeWhen`, 'must be an array of strings');
+      } else {
+        mfe.activeWhen.forEach((prefix, i) => {
+          if (!prefix.startsWith('/')) {
+            error(`${at}.activeWhen[${i}]`, 'must start with "/"');
+            return;
+          }
+          routes.push(prefix);
+          prefixes.push({ prefix, index, id, path: `${at}.activeWhen[${i}]` });
+        });
+      }
+    }
+
+    if (mfe.menu !== undefined) {
+      const menu = mfe.menu;
+      if (!isObject(menu)) {
+        error(`${at}.menu`, 'must be an object');
+      } else {
+        checkFields(menu, MENU_FIELDS, `${at}.menu`);
+        if (typeof menu.label !== 'string' || menu.label === '') error(`${at}.menu.label`, 'is required and must be a string');
+        if (menu.order !== undefined && typeof menu.order !== 'number') error(`${at}.menu.order`, 'must be a number');
+        if (menu.children !== undefined && !Array.isArray(menu.children)) {
+          error(`${at}.menu.children`, 'must be an array');
+        } else {
+          (menu.children ?? []).forEach((child: unknown, i: number) => {
+            const childAt = `${at}.menu.children[${i}]`;
+            if (!isObject(child)) {
+              error(childAt, 'must be an object');
+              return;
+            }
+            checkFields(child, MENU_CHILD_FIELDS, childAt);
+            if (typeof child.label !== 'string' || child.label === '') error(`${childAt}.label`, 'is required and must be a string');
+            const path = child.path;
+            if (typeof path !== 'string' || !path.startsWith('/')) {
+              error(`${childAt}.path`, 'is required and must start with "/"');
+            } else if (routes.length > 0 && !routes.some((route) => path.startsWith(route))) {
+              warning(`${childAt}.path`, `"${path}" is outside this MFE's routes (${routes.join(', ')}) and won't activate it`);
+            }
+          });
+        }
+      }
+    }
+
+    if (mfe.permissions !== undefined && !isStringArray(mfe.permissions)) error(`${at}.permissions`, 'must be an array of strings');
+    if (mfe.featureFlag !== undefined && typeof mfe.featureFlag !== 'string') error(`${at}.featureFlag`, 'must be a string');
+    if (mfe.keepAlive !== undefined && typeof mfe.keepAlive !== 'boolean') error(`${at}.keepAlive`, 'must be a boolean');
+    if (mfe.prefetch !== undefined && !PREFETCH_HINTS.includes(mfe.prefetch as string)) {
+      error(`${at}.prefetch`, `must be one of ${PREFETCH_HINTS.join(', ')}`);
+    }
+
+    for (const [field, keys] of [
+      ['cacheQuota', ['maxEntries', 'maxBytes']],
+      ['timeouts', ['load', 'bootstrap', 'mount']],
+      ['retry', ['attempts', 'backoff']],
+    ] as const) {
+      const value = mfe[field];
+      if (value === undefined) continue;
+      if (!isObject(value)) {
+        error(`${at}.${field}`, 'must be an object');
+        continue;
+      }
+      checkFields(value, [...keys], `${at}.${field}`);
+      keys.forEach((key) => checkPositive(value[key], `${at}.${field}.${key}`));
+    }
+  });
+
+  // The shell activates the first MFE whose route is a string prefix of the
+  // path, so "/react" also captures "/reactive" and "/react-admin". That is
+  // only an error when the shorter route comes first; listed after a longer
+  // one it is a deliberate nesting, reported as a warning.
+  prefixes.forEach((a, i) => {
+    prefixes.slice(i + 1).forEach((b) => {
+      if (a.index === b.index) return;
+      const [shorter, longer] = a.prefix.length <= b.prefix.length ? [a, b] : [b, a];
+      if (!longer.prefix.startsWith(shorter.prefix)) return;
+      const shadowed = shorter.index < longer.index;
+      (shadowed ? error : warning)(
+        longer.path,
+        shorter.prefix === longer.prefix
+          ? `route "${longer.prefix}" is also claimed by "${shorter.id}" (${shorter.path})`
+          : `route "${longer.prefix}" starts with "${shorter.prefix}" from "${shorter.id}" (${shorter.path}); ` +
+              `paths under it would ${shadowed ? 'never reach' : 'only reach'} "${longer.id}"`
+      );
+    });
+  });
+
+  if (data.sharedState !== undefined) {
+    if (!isObject(data.sharedState)) {
+      error('sharedState', 'must be an object');
+    } else {
+      for (const [key, slice] of Object.entries(data.sharedState)) {
+        const at = `sharedState.${key}`;
+        if (!isObject(slice)) {
+          error(at, 'must be an object');
+          continue;
+        }
+        checkFields(slice, ['owners', 'readers', 'storage', 'ttl'], at);
+        if (!isStringArray(slice.owners) || slice.owners.length === 0) {
+          error(`${at}.owners`, 'is required and must list at least one MFE id');
+        }
+        if (slice.readers !== undefined && !isStringArray(slice.readers)) error(`${at}.readers`, 'must be an array of strings');
+        for (const field of ['owners', 'readers'] as const) {
+          const list = slice[field];
+          if (!isStringArray(list)) continue;
+          list.filter((id) => !ids.has(id)).forEach((id) => warning(`${at}.${field}`, `"${id}" is not a registered MFE id`));
+        }
+        if (slice.storage !== undefined && !STORAGE_TIERS.includes(slice.storage as string)) {
+          error(`${at}.storage`, `must be one of ${STORAGE_TIERS.join(', ')}`);
+        }
+        // 0, the default, means shared state doesn't expire
+        if (slice.ttl !== undefined && (typeof slice.ttl !== 'number' || !(slice.ttl >= 0))) {
+          error(`${at}.ttl`, 'must be a non-negative number');
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function formatIssue(issue: ManifestIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
@@ -0,0 +1,122 @@
+import type { NotificationAction, NotificationType, Notify, NotifyOptions } from '../types/mfe';
+import { eventBus } from './eventBus';
+
+export interface ShellNotification {
+  id: number;
+  type: NotificationType;
+  message: string;
+  title?: string;
+  actions: NotificationAction[];
+  // Emitting MFE, or undefined for the shell itself
+  source?: string;
+  timestamp: number;
+  duration: number;
+  read: boolean;
+}
+
+// Toasts on screen at once; the rest wait in the queue
+const MAX_VISIBLE = 3;
+const MAX_HISTORY = 50;
+
+// Errors stay until dismissed; everything else hides itself
+const DEFAULT_DURATION: Record<NotificationType, number> = {
+  info: 5000,
+  success: 5000,
+  warning: 8000,
+  error: 0,
+};
+
+function createNotificationCenter() {
+  let visible = $state<ShellNotification[]>([]);
+  let queue = $state<ShellNotification[]>([]);
+  let history = $state<ShellNotification[]>([]);
+  let unreadCount = $derived(history.filter((n) => !n.read).length);
+
+  const timers = new Map<number, ReturnType<typeof setTimeout>>();
+  let nextId = 1;
+
+  function show(notification: ShellNotification): void {
+    visible = [...visible, notification];
+    if (notification.duration > 0) {
+      timers.set(
+        notification.id,
+        setTimeout(() => dismiss(notification.id), notification.duration)
+      );
+    }
+  }
+
+  function dismiss(id: number): void {
+    const timer = timers.get(id);
+    if (timer) clearTimeout(timer);
+    timers.delete(id);
+
+    queue = queue.filter((n) => n.id !== id);
+    if (!visible.some((n) => n.id === id)) return;
+
+    visible = visible.filter((n) => n.id !== id);
+    const [next, ...rest] = queue;
+    if (next) {
+      queue = rest;
+      show(next);
+    }
+  }
+
+  function notify(message: string, options: NotifyOptions = {}, source?: string): () => void {
+    const type = options.type ?? 'info';
+    const notification: ShellNotification = {
+      id: nextId++,
+      type,
+      message,
+      title: options.title,
+      actions: options.actions ?? [],
+      source,
+      timestamp: Date.now(),
+      duration: options.duration ?? DEFAULT_DURATION[type],
+      read: false,
+    };
+
+    history = [notification, ...history].slice(0, MAX_HISTORY);
+    if (visible.length < MAX_VISIBLE) {
+      show(notification);
+    } else {
+      queue = [...queue, notification];
+    }
+
+    return () => dismiss(notification.id);
+  }
+
+  return {
+    get visible() {
+      return visible;
+    },
+    get history() {
+      return history;
+    },
+    get unreadCount() {
+      return unreadCount;
+    },
+
+    notify,
+    dismiss,
+
+    markAllRead() {
+      history = history.map((n) => (n.read ? n : { ...n, read: true }));
+    },
+
+    clearHistory() {
+      history = [];
+    },
+
+    // notify() handed to an MFE; its notifications are attributed to it
+    forMfe(mfeId: string): Notify {
+      return (message, options) => notify(message, options, mfeId);
+    },
+  };
+}
+
+export const notifications = createNotificationCenter();
+
+// MFEs that still emit the event get the same toast as notify()
+eventBus.on('notification:show', (payload, meta) => {
+  notifications.notify(payload.message, { type: payload.type }, meta.source);
+});
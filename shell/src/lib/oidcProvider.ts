@@ -0,0 +1,263 @@
+import type { User } from '../types/mfe';
+import type { AuthProvider, AuthSession } from './authProvider';
+import { base64UrlEncode, decodeJwt } from './jwt';
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  redirectUri?: string;
+  postLogoutRedirectUri?: string;
+  scope?: string;
+  // Claim holding the user's roles (e.g. "roles", "groups")
+  rolesClaim?: string;
+}
+
+interface DiscoveryDocument {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  token_type: string;
+}
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+const PENDING_KEY = 'mfe-shell:oidc:pending';
+const SESSION_KEY = 'mfe-shell:oidc:session';
+
+function randomString(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+export function createOidcProvider(config: OidcConfig): AuthProvider {
+  const issuer = config.issuer.replace(/\/$/, '');
+  const redirectUri = config.redirectUri ?? `${window.location.origin}/auth/callback`;
+  const postLogoutRedirectUri = config.postLogoutRedirectUri ?? window.location.origin;
+  const scope = config.scope ?? 'openid profile email';
+  const rolesClaim = config.rolesClaim ?? 'roles';
+
+  let discovery: Promise<DiscoveryDocument> | null = null;
+
+  function discover(): Promise<DiscoveryDocument> {
+    if (!discovery) {
+      discovery = fetch(`${issuer}/.well-known/openid-configuration`).then((response) => {
+        if (!response.ok) {
+          throw new Error(`OIDC discovery failed: ${response.statusText}`);
+        }
+        return response.json() as Promise<DiscoveryDocument>;
+      });
+      // Allow a retry on the next call if discovery failed
+      discovery.catch(() => (discovery = null));
+    }
+    return discovery;
+  }
+
+  async function resolveUser(tokens: TokenResponse, nonce: string): Promise<User> {
+    const claims = tokens.id_token ? decodeJwt(tokens.id_token) : null;
+    if (claims && claims.nonce !== nonce) {
+      throw new Error('OIDC nonce mismatch');
+    }
+
+    let profile: Record<string, unknown> = claims ?? {};
+    const { userinfo_endpoint } = await discover();
+    if (userinfo_endpoint) {
+      const response = await fetch(userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (response.ok) {
+        profile = { ...profile, ...(await response.json()) };
+      }
+    }
+
+    const roles = profile[rolesClaim];
+    return {
+      id: String(profile.sub ?? ''),
+      name: String(profile.name ?? profile.preferred_username ?? profile.email ?? ''),
+      email: String(profile.email ?? ''),
+      roles: Array.isArray(roles) ? roles.map(String) : [],
+    };
+  }
+
+  async function requestTokens(params: Record<string, string>): Promise<TokenResponse> {
+    const { token_endpoint } = await discover();
+    const response = await fetch(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ client_id: config.clientId, ...params }),
+    });
+    if (!response.ok) {
+      throw new Error(`Token request failed: ${response.statusText}`);
+    }
+    return response.json() as Promise<TokenResponse>;
+  }
+
+  // Prefer the access token's own exp claim; fall back to expires_in
+  function expiresAtOf(tokens: TokenResponse): number | undefined {
+    const exp = decodeJwt(tokens.access_token)?.exp;
+    if (typeof exp === 'number') return exp * 1000;
+    return tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined;
+  }
+
+  function saveSession(session: AuthSession | null): void {
+    if (session) {
+      sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } else {
+      sessionStorage.removeItem(SESSION_KEY);
+    }
+  }
+
+  return {
+    name: 'oidc',
+
+    async login(returnTo) {
+      const { authorization_endpoint } = await discover();
+      const pending: PendingLogin = {
+        state: randomString(),
+        nonce: randomString(),
+        codeVerifier: randomString(48),
+        returnTo,
+      };
+      sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+      const url = new URL(authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: redirectUri,
+        scope,
+        state: pending.state,
+        nonce: pending.nonce,
+        code_challenge: await createCodeChallenge(pending.codeVerifier),
+        code_challenge_method: 'S256',
+      }).toString();
+
+      window.location.assign(url.toString());
+      return null;
+    },
+
+    async logout(session) {
+      saveSession(null);
+      const { end_session_endpoint } = await discover();
+      if (!end_session_endpoint) return;
+
+      const url = new URL(end_session_endpoint);
+      url.searchParams.set('client_id', config.clientId);
+      url.searchParams.set('post_logout_redirect_uri', postLogoutRedirectUri);
+      if (session?.idToken) url.searchParams.set('id_token_hint', session.idToken);
+      window.location.assign(url.toString());
+    },
+
+    async restoreSession() {
+      const raw = sessionStorage.getItem(SESSION_KEY);
+      if (!raw) return null;
+      try {
+        const session = JSON.parse(raw) as AuthSession;
+        // An expired session is still useful if it can be refreshed
+        if (session.expiresAt && session.expiresAt <= Date.now() && !session.refreshToken) {
+          saveSession(null);
+          return null;
+        }
+        return session;
+      } catch {
+        saveSession(null);
+        return null;
+      }
+    },
+
+    forget() {
+      saveSession(null);
+    },
+
+    isCallback(url) {
+      return `${url.origin}${url.pathname}` === redirectUri;
+    },
+
+    async handleCallback(url) {
+      const raw = sessionStorage.getItem(PENDING_KEY);
+      sessionStorage.removeItem(PENDING_KEY);
+
+      const error = url.searchParams.get('error');
+      if (error) {
+        throw new Error(`Sign-in failed: ${url.searchParams.get('error_description') ?? error}`);
+      }
+      if (!raw) {
+        throw new Error('Sign-in failed: no pending login for this callback');
+      }
+
+      const pending = JSON.parse(raw) as PendingLogin;
+      const code = url.searchParams.get('code');
+      if (!code || url.searchParams.get('state') !== pending.state) {
+        throw new Error('Sign-in failed: invalid authorization response');
+      }
+
+      const tokens = await requestTokens({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: pending.codeVerifier,
+      });
+      const session: AuthSession = {
+        user: await resolveUser(tokens, pending.nonce),
+        accessToken: tokens.access_token,
+        idToken: tokens.id_token,
+        refreshToken: tokens.refresh_token,
+        expiresAt: expiresAtOf(tokens),
+      };
+      saveSession(session);
+
+      return { session, returnTo: pending.returnTo };
+    },
+
+    async refresh(session, scopes) {
+      if (!session.refreshToken) {
+        throw new Error('Session has no refresh token');
+      }
+
+      const tokens = await requestTokens({
+        grant_type: 'refresh_token',
+        refresh_token: session.refreshToken,
+        ...(scopes?.length ? { scope: scopes.join(' ') } : {}),
+      });
+      // Servers that rotate refresh tokens return a new one; keep the old otherwise
+      const refreshToken = tokens.refresh_token ?? session.refreshToken;
+
+      if (scopes?.length) {
+        // A down-scoped token must not replace the session's primary access token
+        saveSession({ ...session, refreshToken });
+        return {
+          ...session,
+          accessToken: tokens.access_token,
+          refreshToken,
+          expiresAt: expiresAtOf(tokens),
+        };
+      }
+
+      const next: AuthSession = {
+        ...session,
+        accessToken: tokens.access_token,
+        idToken: tokens.id_token ?? session.idToken,
+        refreshToken,
+        expiresAt: expiresAtOf(tokens),
+      };
+      saveSession(next);
+      return next;
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { MfeRegistration, MfeRoute, User } from '../types/mfe';
+
+// A user satisfies a permission list when they hold every listed role.
+// An empty or missing list means the resource is public.
+export function hasPermissions(user: User | null, permissions?: string[]): boolean {
+  if (!permissions || permissions.length === 0) return true;
+  if (!user) return false;
+  return permissions.every((permission) => user.roles.includes(permission));
+}
+
+export function canAccessMfe(mfe: MfeRegistration, user: User | null): boolean {
+  return hasPermissions(user, mfe.permissions);
+}
+
+export function filterRoutes(routes: MfeRoute[], user: User | null): MfeRoute[] {
+  return routes.filter((route) => hasPermissions(user, route.permissions));
+}
+
+// Find the most specific route (longest path prefix) that matches the given path
+export function matchRoute(routes: MfeRoute[], path: string): MfeRoute | undefined {
+  let match: MfeRoute | undefined;
+  for (const route of routes) {
+    if (route.external) continue;
+    const matches = path === route.path || path.startsWith(route.path + '/');
+    if (matches && (!match || route.path.length > match.path.length)) {
+      match = route;
+    }
+  }
+  return match;
+}
+
+// Check whether a path inside an MFE may be activated by the user.
+// Both the MFE's own permissions and those of the matching route apply.
+export function canActivate(
+  mfe: MfeRegistration,
+  routes: MfeRoute[],
+  path: string,
+  user: User | null
+): boolean {
+  if (!canAccessMfe(mfe, user)) return false;
+  const route = matchRoute(routes, path);
+  return hasPermissions(user, route?.permissions);
+}
@@ -0,0 +1,74 @@
+import type { MfeRegistration } from '../types/mfe';
+import { isMfeLoaded, resolveStylesheet } from './federation';
+
+type PrefetchReason = 'intent' | 'idle' | 'eager';
+
+// Subset of the Network Information API (not in every browser or in lib.dom)
+interface NetworkInformation {
+  saveData?: boolean;
+  effectiveType?: string;
+}
+
+const SLOW_CONNECTIONS = ['slow-2g', '2g'];
+
+const prefetched = new Set<string>();
+
+// Save-Data turns prefetching off. On slow connections only an explicit
+// intent (hovering or focusing a nav link) prefetches.
+function isAllowed(reason: PrefetchReason): boolean {
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+  if (connection?.saveData) return false;
+  if (reason !== 'intent' && SLOW_CONNECTIONS.includes(connection?.effectiveType ?? '')) return false;
+  return true;
+}
+
+function addHint(rel: string, href: string, as?: string): void {
+  const link = document.createElement('link');
+  link.rel = rel;
+  link.href = href;
+  if (as) link.as = as;
+  document.head.appendChild(link);
+}
+
+function whenIdle(task: () => void): () => void {
+  if ('requestIdleCallback' in window) {
+    const id = requestIdleCallback(task, { timeout: 5000 });
+    return () => cancelIdleCallback(id);
+  }
+  const id = setTimeout(task, 1000);
+  return () => clearTimeout(id);
+}
+
+// Download an MFE's entry and stylesheet into the browser cache. Nothing is
+// executed or bootstrapped until the MFE is actually loaded.
+export function prefetchMfe(mfe: MfeRegistration, reason: PrefetchReason = 'intent'): void {
+  if (mfe.prefetch === 'none' || prefetched.has(mfe.id) || isMfeLoaded(mfe.id)) return;
+  if (!isAllowed(reason)) return;
+
+  prefetched.add(mfe.id);
+  addHint('modulepreload', mfe.entry);
+  resolveStylesheet(mfe)
+    .then((url) => {
+      if (url) addHint('preload', url, 'style');
+    })
+    .catch(() => {});
+  console.log(`[Prefetch] Prefetching MFE: ${mfe.id} (${reason})`);
+}
+
+// Apply the manifest hints: 'eager' MFEs right away, 'idle' MFEs one at a
+// time while the browser is idle. Returns a function that cancels pending work.
+export function schedulePrefetch(mfes: MfeRegistration[]): () => void {
+  mfes.filter((m) => m.prefetch === 'eager').forEach((m) => prefetchMfe(m, 'eager'));
+
+  const queue = mfes.filter((m) => m.prefetch === 'idle');
+  let cancel: (() => void) | null = null;
+  const next = () => {
+    const mfe = queue.shift();
+    if (!mfe) return;
+    prefetchMfe(mfe, 'idle');
+    cancel = whenIdle(next);
+  };
+  if (queue.length > 0) cancel = whenIdle(next);
+
+  return () => cancel?.();
+}
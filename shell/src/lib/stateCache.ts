@@ -1,64 +1,483 @@
-import type { CacheOptions, MfeCache } from '../types/mfe';
+import type {
+  CacheEvictedEvent,
+  CacheMigration,
+  CacheOptions,
+  CacheQuota,
+  CacheReadOptions,
+  CacheStorageTier,
+  LoadOptions,
+  MfeCache,
+  SharedStateConfig,
+} from '../types/mfe';
+import { createCacheBackends, isExpired, type CacheBackend } from './cacheStorage';
+import { eventBus } from './eventBus';
+import { SubscriptionTracker } from './subscriptionTracker';
 
 interface CacheEntry<T> {
   value: T;
   expiresAt: number | null;
+  // Past this, getOrLoad() still serves the value but revalidates it
+  staleAt?: number | null;
   version?: number;
+  storage: CacheStorageTier;
+  // Approximate size in bytes, for quota accounting
+  size: number;
+  // User the entry was written for; unset for shared slices and while signed out
+  owner?: string;
+}
+
+// Applies to every MFE without a cacheQuota in the manifest
+const DEFAULT_QUOTA: Required<CacheQuota> = {
+  maxEntries: 50,
+  maxBytes: 1024 * 1024,
+};
+
+// How long getOrLoad() remembers a failed load before trying again
+const DEFAULT_ERROR_TTL = 5000;
+
+// Shared slices live under this namespace; '@' keeps it apart from MFE IDs
+const SHARED_NAMESPACE = '@shared';
+
+export class CacheAccessError extends Error {
+  constructor(
+    message: string,
+    public readonly mfeId: string,
+    public readonly key: string
+  ) {
+    super(message);
+    this.name = 'CacheAccessError';
+  }
+}
+
+// Keys are stored as `${mfeId}:${key}`; the shell's own keys have no namespace
+function splitKey(fullKey: string): { namespace: string; key: string } {
+  const separator = fullKey.indexOf(':');
+  if (separator === -1) return { namespace: '', key: fullKey };
+  return { namespace: fullKey.slice(0, separator), key: fullKey.slice(separator + 1) };
+}
+
+// Serialized UTF-16 size of the key and value. Values JSON can't represent
+// (e.g. Blobs in IndexedDB) only count their key.
+function approximateSize(key: string, value: unknown): number {
+  let length = key.length;
+  try {
+    length += JSON.stringify(value)?.length ?? 0;
+  } catch {
+    // Not measurable
+  }
+  return length * 2;
 }
 
 class StateCache {
+  // Ordered least to most recently used: reads and writes move an entry to the end
   private cache = new Map<string, CacheEntry<unknown>>();
-  private maxSize = 50;
+  private quotas = new Map<string, Required<CacheQuota>>();
+  // Registered schema migrations per key
+  private migrations = new Map<string, CacheMigration[]>();
+  private listeners = new Map<string, Set<(value: unknown) => void>>();
+  private sharedSlices = new Map<string, SharedStateConfig>();
+  // getOrLoad() bookkeeping: loads in flight and recently failed loads
+  private inflight = new Map<string, Promise<unknown>>();
+  private failures = new Map<string, { error: unknown; until: number }>();
+  // Subscriptions made through each MFE's cache
+  private mfeSubscriptions = new SubscriptionTracker();
   private defaultTtl = 5 * 60 * 1000; // 5 minutes
+  // Signed-in user, kept in step with auth:changed
+  private user: string | null = null;
+  // Persistent tiers; every persisted entry is mirrored in memory after hydrate()
+  private backends: Partial<Record<CacheStorageTier, CacheBackend>> = createCacheBackends();
+
+  // Load persisted entries into memory. The shell awaits this before mounting
+  // MFEs so get() stays synchronous for every tier.
+  async hydrate(): Promise<void> {
+    await Promise.all(
+      Object.values(this.backends).map(async (backend) => {
+        try {
+          const entries = await backend.load();
+          entries.forEach((entry, key) => {
+            if (isExpired(entry) || !this.belongsToUser(entry)) {
+              void backend.remove(key);
+            } else if (!this.cache.has(key)) {
+              // Anything set while hydrating is newer than the stored copy
+              const size = approximateSize(key, entry.value);
+              this.cache.set(key, { ...entry, storage: backend.tier, size });
+            }
+          });
+        } catch (e) {
+          console.warn(`[StateCache] Could not load ${backend.tier} storage:`, e);
+        }
+      })
+    );
+
+    const namespaces = new Set([...this.cache.keys()].map((key) => splitKey(key).namespace));
+    namespaces.forEach((namespace) => this.enforceQuota(namespace));
+  }
+
+  // Entries written for another user must not reach this one: signing out or
+  // switching users drops them from memory and every persistent tier
+  setUser(userId: string | null): void {
+    if (userId === this.user) return;
+    this.user = userId;
+    for (const [key, entry] of [...this.cache]) {
+      if (!this.belongsToUser(entry)) this.delete(key);
+    }
+  }
+
+  private belongsToUser(entry: { owner?: string }): boolean {
+    return entry.owner === undefined || entry.owner === this.user;
+  }
+
+  // Limits for one MFE's entries, usually from its manifest cacheQuota
+  configureQuota(mfeId: string, quota: CacheQuota): void {
+    this.quotas.set(mfeId, { ...DEFAULT_QUOTA, ...quota });
+    this.enforceQuota(mfeId);
+  }
+
+  // Declare the shared slices MFEs may use, usually from the manifest's sharedState
+  configureShared(slices: Record<string, SharedStateConfig>): void {
+    this.sharedSlices = new Map(Object.entries(slices));
+  }
+
+  // Listeners hear about sets, deletes and evictions; an entry whose TTL
+  // lapses is reported once something reads it
+  subscribe<T>(key: string, listener: (value: T | null) => void): () => void {
+    const entry = listener as (value: unknown) => void;
+    // Read before adding the listener so an expired entry isn't reported twice
+    const current = this.get(key);
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(entry);
+    this.call(key, entry, current);
+
+    return () => {
+      const listeners = this.listeners.get(key);
+      listeners?.delete(entry);
+      if (listeners?.size === 0) this.listeners.delete(key);
+    };
+  }
 
-  get<T>(key: string): T | null {
+  private notify(key: string): void {
+    const listeners = this.listeners.get(key);
+    if (!listeners) return;
+    const value = this.cache.get(key)?.value ?? null;
+    [...listeners].forEach((listener) => this.call(key, listener, value));
+  }
+
+  private call(key: string, listener: (value: unknown) => void, value: unknown): void {
+    try {
+      listener(value);
+    } catch (e) {
+      console.error(`[StateCache] Error in subscriber for "${key}":`, e);
+    }
+  }
+
+  get<T>(key: string, options?: CacheReadOptions): T | null {
     const entry = this.cache.get(key);
     if (!entry) return null;
 
     // Check expiration
     if (entry.expiresAt && Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+      this.delete(key);
       return null;
     }
 
+    const expected = options?.version;
+    if (expected !== undefined && (entry.version ?? 0) !== expected) {
+      return this.migrate<T>(key, entry, expected);
+    }
+
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
     return entry.value as T;
   }
 
-  set<T>(key: string, value: T, options?: CacheOptions): void {
-    // Enforce size limit (LRU-style: remove oldest)
-    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) this.cache.delete(firstKey);
+  registerMigration(key: string, migration: CacheMigration): () => void {
+    // Re-registering on remount replaces the step instead of duplicating it
+    const steps = (this.migrations.get(key) ?? []).filter((m) => m.from !== migration.from);
+    this.migrations.set(key, [...steps, migration]);
+    return () => {
+      const remaining = (this.migrations.get(key) ?? []).filter((m) => m !== migration);
+      if (remaining.length > 0) {
+        this.migrations.set(key, remaining);
+      } else {
+        this.migrations.delete(key);
+      }
+    };
+  }
+
+  // Walk registered migrations from the entry's version to the expected one.
+  // The migrated value replaces the entry; without a path it is discarded.
+  private migrate<T>(key: string, entry: CacheEntry<unknown>, expected: number): T | null {
+    const steps = this.migrations.get(key) ?? [];
+    let version = entry.version ?? 0;
+    let value = entry.value;
+    const visited = new Set<number>();
+
+    while (version !== expected) {
+      const step = steps.find((m) => m.from === version);
+      if (!step || visited.has(version)) {
+        console.info(
+          `[StateCache] Discarding "${key}": cached version ${entry.version ?? 0} can't be migrated to ${expected}`
+        );
+        this.delete(key);
+        return null;
+      }
+      visited.add(version);
+      try {
+        value = step.migrate(value);
+      } catch (e) {
+        console.warn(`[StateCache] Migration of "${key}" from version ${step.from} failed; discarding it:`, e);
+        this.delete(key);
+        return null;
+      }
+      version = step.to;
+    }
+
+    // Store the upgraded value with the same tier and remaining lifetime
+    const now = Date.now();
+    const freshUntil = entry.staleAt ?? entry.expiresAt;
+    const ttl = freshUntil === null ? 0 : Math.max(freshUntil - now, 1);
+    const staleWhileRevalidate =
+      entry.staleAt && entry.expiresAt ? entry.expiresAt - Math.max(entry.staleAt, now) : 0;
+    this.set(key, value, { ttl, staleWhileRevalidate, version: expected, storage: entry.storage });
+    return (this.cache.get(key)?.value as T) ?? null;
+  }
+
+  async getOrLoad<T>(key: string, loader: () => Promise<T>, options: LoadOptions = {}): Promise<T> {
+    const value = this.get<T>(key, { version: options.version });
+    const entry = this.cache.get(key);
+    const failure = this.recentFailure(key);
+    if (entry) {
+      // A recent failure also holds back revalidation, or every read of a
+      // stale entry would call the failing loader again
+      if (entry.staleAt && Date.now() > entry.staleAt && !failure) {
+        // Failures are recorded in load(); the stale value keeps being served
+        this.load(key, loader, options).catch(() => {});
+      }
+      return value as T;
+    }
+
+    if (failure) throw failure.error;
+    return this.load(key, loader, options);
+  }
+
+  private recentFailure(key: string): { error: unknown } | undefined {
+    const failure = this.failures.get(key);
+    if (!failure) return undefined;
+    if (Date.now() < failure.until) return failure;
+    this.failures.delete(key);
+    return undefined;
+  }
+
+  private load<T>(key: string, loader: () => Promise<T>, options: LoadOptions): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const errorTtl = options.errorTtl ?? DEFAULT_ERROR_TTL;
+    const promise = Promise.resolve()
+      .then(loader)
+      .then(
+        (value) => {
+          this.failures.delete(key);
+          this.set(key, value, options);
+          return value;
+        },
+        (error) => {
+          if (errorTtl > 0) this.failures.set(key, { error, until: Date.now() + errorTtl });
+          throw error;
+        }
+      )
+      .finally(() => this.inflight.delete(key));
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  set<T>(key: string, value: T, options?: LoadOptions): void {
+    const { namespace } = splitKey(key);
+    const quota = this.quotaFor(namespace);
+    const size = approximateSize(key, value);
+    if (size > quota.maxBytes) {
+      console.warn(
+        `[StateCache] "${key}" is about ${size} bytes, over the ${quota.maxBytes} byte quota; not cached`
+      );
+      // Drop any previous value too: keeping it would serve data the MFE has replaced
+      this.evict(key, 'too-large');
+      return;
+    }
+
+    const storage = options?.storage ?? 'memory';
+    const backend = this.backends[storage];
+    if (storage !== 'memory' && !backend) {
+      console.warn(`[StateCache] ${storage} storage is unavailable; keeping "${key}" in memory`);
+    }
+
+    // Moving an entry to another tier must not leave a stale copy behind
+    const previous = this.cache.get(key);
+    if (previous && previous.storage !== storage) {
+      this.removePersisted(key, previous.storage);
     }
 
     const ttl = options?.ttl ?? this.defaultTtl;
-    this.cache.set(key, {
+    const staleWindow = ttl > 0 ? Math.max(options?.staleWhileRevalidate ?? 0, 0) : 0;
+    const now = Date.now();
+    const entry: CacheEntry<unknown> = {
       value,
-      expiresAt: ttl > 0 ? Date.now() + ttl : null,
+      expiresAt: ttl > 0 ? now + ttl + staleWindow : null,
+      staleAt: staleWindow > 0 ? now + ttl : null,
       version: options?.version,
-    });
+      storage: backend ? storage : 'memory',
+      size,
+      owner: this.user !== null && namespace !== SHARED_NAMESPACE ? this.user : undefined,
+    };
+    // Re-insert so the entry becomes the most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    if (backend) {
+      const persisted = {
+        value,
+        expiresAt: entry.expiresAt,
+        staleAt: entry.staleAt,
+        version: entry.version,
+        owner: entry.owner,
+      };
+      void backend.save(key, persisted).then((saved) => {
+        // Quota or serialization failure: the value still lives for this page
+        if (!saved && this.cache.get(key) === entry) entry.storage = 'memory';
+      });
+    }
+
+    this.enforceQuota(namespace);
+    this.notify(key);
+  }
+
+  delete(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) return;
+    this.cache.delete(key);
+    this.failures.delete(key);
+    this.removePersisted(key, entry.storage);
+    this.notify(key);
   }
 
   clear(): void {
-    this.cache.clear();
+    [...this.cache.keys()].forEach((key) => this.delete(key));
+  }
+
+  private quotaFor(namespace: string): Required<CacheQuota> {
+    return this.quotas.get(namespace) ?? DEFAULT_QUOTA;
+  }
+
+  // Evict a namespace's least recently used entries until it fits its quota
+  private enforceQuota(namespace: string): void {
+    const quota = this.quotaFor(namespace);
+    const keys = [...this.cache.keys()].filter((key) => splitKey(key).namespace === namespace);
+
+    let count = 0;
+    let bytes = 0;
+    const live: string[] = [];
+    for (const key of keys) {
+      const entry = this.cache.get(key)!;
+      // Expired entries are dropped first, without an eviction event
+      if (entry.expiresAt && Date.now() > entry.expiresAt) {
+        this.delete(key);
+        continue;
+      }
+      count++;
+      bytes += entry.size;
+      live.push(key);
+    }
+
+    for (const key of live) {
+      if (count <= quota.maxEntries && bytes <= quota.maxBytes) break;
+      const reason = count > quota.maxEntries ? 'max-entries' : 'max-bytes';
+      count--;
+      bytes -= this.cache.get(key)!.size;
+      this.evict(key, reason);
+    }
+  }
+
+  // Drop an entry for quota reasons and tell the owning MFE
+  private evict(fullKey: string, reason: CacheEvictedEvent['reason']): void {
+    this.delete(fullKey);
+    const { namespace, key } = splitKey(fullKey);
+    if (!namespace) return;
+    eventBus.emit('cache:evicted', { mfeId: namespace, key, reason });
+  }
+
+  private removePersisted(key: string, storage: CacheStorageTier): void {
+    const backend = this.backends[storage];
+    backend?.remove(key).catch((e) => {
+      console.warn(`[StateCache] Could not remove "${key}" from ${storage} storage:`, e);
+    });
+  }
+
+  // Check an MFE's declared access to a shared slice
+  private sharedSlice(mfeId: string, key: string, access: 'read' | 'write'): SharedStateConfig {
+    const slice = this.sharedSlices.get(key);
+    if (!slice) {
+      throw new CacheAccessError(`[StateCache] "${key}" is not a declared shared state key`, mfeId, key);
+    }
+    const allowed =
+      slice.owners.includes(mfeId) ||
+      (access === 'read' && (!slice.readers || slice.readers.includes(mfeId)));
+    if (!allowed) {
+      throw new CacheAccessError(`[StateCache] ${mfeId} may not ${access} shared state "${key}"`, mfeId, key);
+    }
+    return slice;
   }
 
   // Create a namespaced cache for a specific MFE
   forMfe(mfeId: string): MfeCache {
     const prefix = `${mfeId}:`;
+    const sharedKey = (key: string) => `${SHARED_NAMESPACE}:${key}`;
+
+    const track = (off: () => void) => this.mfeSubscriptions.track(mfeId, off);
+
     return {
-      get: <T>(key: string) => this.get<T>(`${prefix}${key}`),
+      get: <T>(key: string, options?: CacheReadOptions) => this.get<T>(`${prefix}${key}`, options),
       set: <T>(key: string, value: T, options?: CacheOptions) =>
         this.set(`${prefix}${key}`, value, options),
+      registerMigration: (key: string, migration: CacheMigration) =>
+        this.registerMigration(`${prefix}${key}`, migration),
+      subscribe: <T>(key: string, listener: (value: T | null) => void) =>
+        track(this.subscribe(`${prefix}${key}`, listener)),
+      getOrLoad: <T>(key: string, loader: () => Promise<T>, options?: LoadOptions) =>
+        this.getOrLoad(`${prefix}${key}`, loader, options),
       clear: () => {
-        for (const key of this.cache.keys()) {
+        for (const key of [...this.cache.keys()]) {
           if (key.startsWith(prefix)) {
-            this.cache.delete(key);
+            this.delete(key);
           }
         }
       },
+      shared: {
+        get: <T>(key: string) => {
+          this.sharedSlice(mfeId, key, 'read');
+          return this.get<T>(sharedKey(key));
+        },
+        set: <T>(key: string, value: T) => {
+          const slice = this.sharedSlice(mfeId, key, 'write');
+          this.set(sharedKey(key), value, { storage: slice.storage, ttl: slice.ttl ?? 0 });
+        },
+        subscribe: <T>(key: string, listener: (value: T | null) => void) => {
+          this.sharedSlice(mfeId, key, 'read');
+          return track(this.subscribe(sharedKey(key), listener));
+        },
+        canWrite: (key: string) => this.sharedSlices.get(key)?.owners.includes(mfeId) ?? false,
+      },
     };
   }
+
+  // Remove every cache subscription an MFE still holds; returns how many were removed
+  disposeMfe(mfeId: string): number {
+    return this.mfeSubscriptions.dispose(mfeId);
+  }
 }
 
 export const stateCache = new StateCache();
+
+eventBus.on('auth:changed', ({ user }) => stateCache.setUser(user?.id ?? null));
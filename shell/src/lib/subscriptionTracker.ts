@@ -0,0 +1,38 @@
+// Unsubscribe functions held per MFE, so subscriptions an MFE didn't clean up
+// itself can be dropped when it unloads. Used by the event bus and state cache.
+export class SubscriptionTracker {
+  private byMfe = new Map<string, Set<() => void>>();
+
+  // Wrap an unsubscribe function so it is tracked for the MFE until called.
+  // The set is looked up on every call: a late subscription made after
+  // dispose() starts a new set instead of landing in the discarded one.
+  track(mfeId: string, off: () => void): () => void {
+    let subscriptions = this.byMfe.get(mfeId);
+    if (!subscriptions) {
+      subscriptions = new Set();
+      this.byMfe.set(mfeId, subscriptions);
+    }
+    const tracked = subscriptions;
+    const unsubscribe = () => {
+      off();
+      tracked.delete(unsubscribe);
+    };
+    tracked.add(unsubscribe);
+    return unsubscribe;
+  }
+
+  count(mfeId: string): number {
+    return this.byMfe.get(mfeId)?.size ?? 0;
+  }
+
+  // Unsubscribe everything the MFE still holds; returns how many were removed
+  dispose(mfeId: string): number {
+    const subscriptions = this.byMfe.get(mfeId);
+    if (!subscriptions) return 0;
+
+    const count = subscriptions.size;
+    this.byMfe.delete(mfeId);
+    [...subscriptions].forEach((unsubscribe) => unsubscribe());
+    return count;
+  }
+}
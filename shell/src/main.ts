@@ -1,5 +1,11 @@
 import { mount } from 'svelte';
 import App from './App.svelte';
+import { connectCrossTab } from './lib/crossTab';
+
+// Mirror sign-in state and user settings across open tabs
+connectCrossTab({
+  events: ['auth:changed', 'auth:token-refreshed', 'settings:changed', 'preferences:changed'],
+});
 
 const app = mount(App, {
   target: document.getElementById('app')!,
@@ -1,32 +1,18 @@
 // MFE Type Definitions
 
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  roles: string[];
-}
+import type { AuthState, MfeRoute, NotificationType, ScopedEventBus } from '@micro-ui/mfe-types';
 
-export interface AuthContext {
-  user: User | null;
-  token: string | null;
-  isAuthenticated: boolean;
+// Shared contracts live in the @micro-ui/mfe-types package so MFEs can import them too
+export type * from '@micro-ui/mfe-types';
+
+// Live view of the shell's auth state. Getters always return current values;
+// subscribe() calls the listener immediately and on every subsequent change.
+export interface AuthContext extends AuthState {
   login: () => void;
   logout: () => void;
-}
-
-export interface EventBus {
-  emit: (event: string, payload: unknown) => void;
-  on: (event: string, handler: (payload: unknown) => void) => () => void;
-}
-
-export interface MfeRoute {
-  label: string;
-  path: string;
-  icon?: string;
-  order?: number;
-  permissions?: string[];
-  external?: boolean;
+  subscribe: (listener: (state: AuthState) => void) => () => void;
+  // Resolves a non-expired access token (refreshing first if needed), or null when signed out
+  getAccessToken: (scopes?: string[]) => Promise<string | null>;
 }
 
 export interface NavigationApi {
@@ -35,26 +21,128 @@ export interface NavigationApi {
   currentPath: string;
 }
 
+// Where a cache entry lives: memory is lost on reload, session survives reloads
+// in the same tab, local and indexeddb survive until cleared or expired
+export type CacheStorageTier = 'memory' | 'session' | 'local' | 'indexeddb';
+
 export interface CacheOptions {
   ttl?: number;
   version?: number;
+  // Defaults to 'memory'
+  storage?: CacheStorageTier;
 }
 
-export interface MfeCache {
+export interface LoadOptions extends CacheOptions {
+  // Milliseconds after the TTL during which the stale value is still returned
+  // while a fresh one loads in the background
+  staleWhileRevalidate?: number;
+  // Milliseconds a failed load is remembered and rethrown without calling
+  // the loader again (default 5000; 0 disables)
+  errorTtl?: number;
+}
+
+export interface CacheReadOptions {
+  // Schema version the caller expects. Entries with another version are
+  // migrated when registered migrations lead to it, otherwise discarded.
+  // Entries stored without a version count as version 0.
+  version?: number;
+}
+
+// Upgrades a cached value from one schema version to another
+export interface CacheMigration {
+  from: number;
+  to: number;
+  migrate: (value: unknown) => unknown;
+}
+
+// Called with the current value on subscribe, then after every change;
+// null once the entry is deleted or evicted
+export type CacheListener<T> = (value: T | null) => void;
+
+// A state slice several MFEs share, declared in the manifest's sharedState
+export interface SharedStateConfig {
+  // MFE IDs that may write the slice
+  owners: string[];
+  // MFE IDs that may read it; every MFE when omitted
+  readers?: string[];
+  storage?: CacheStorageTier;
+  // Defaults to 0: shared state doesn't expire
+  ttl?: number;
+}
+
+// Access to shared slices. Reading or writing a slice the MFE isn't declared
+// for throws a CacheAccessError.
+export interface SharedCache {
   get: <T>(key: string) => T | null;
+  set: <T>(key: string, value: T) => void;
+  subscribe: <T>(key: string, listener: CacheListener<T>) => () => void;
+  canWrite: (key: string) => boolean;
+}
+
+export interface MfeCache {
+  get: <T>(key: string, options?: CacheReadOptions) => T | null;
   set: <T>(key: string, value: T, options?: CacheOptions) => void;
   clear: () => void;
+  // Returns a function that unregisters the migration
+  registerMigration: (key: string, migration: CacheMigration) => () => void;
+  subscribe: <T>(key: string, listener: CacheListener<T>) => () => void;
+  // Cached value if present, otherwise the loader's result (cached on success).
+  // Concurrent calls for the same key share a single loader call.
+  getOrLoad: <T>(key: string, loader: () => Promise<T>, options?: LoadOptions) => Promise<T>;
+  shared: SharedCache;
+}
+
+export interface FeatureFlags {
+  isEnabled: (flag: string) => boolean;
+  getAll: () => Record<string, boolean>;
+}
+
+export interface HttpRequestOptions extends RequestInit {
+  // Request a down-scoped access token for this call
+  scopes?: string[];
+  // Send the request without an Authorization header (always the case for
+  // origins other than the shell and VITE_API_ORIGINS)
+  skipAuth?: boolean;
 }
 
+export interface HttpClient {
+  fetch: (url: string, options?: HttpRequestOptions) => Promise<Response>;
+  get: <T>(url: string, options?: HttpRequestOptions) => Promise<T>;
+  post: <T>(url: string, body?: unknown, options?: HttpRequestOptions) => Promise<T>;
+  put: <T>(url: string, body?: unknown, options?: HttpRequestOptions) => Promise<T>;
+  patch: <T>(url: string, body?: unknown, options?: HttpRequestOptions) => Promise<T>;
+  delete: <T>(url: string, options?: HttpRequestOptions) => Promise<T>;
+}
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface NotifyOptions {
+  type?: NotificationType;
+  title?: string;
+  // Milliseconds before the toast hides itself; 0 keeps it until dismissed
+  duration?: number;
+  actions?: NotificationAction[];
+}
+
+// Shows a toast in the shell and records it in the notification history.
+// Returns a function that dismisses the toast early.
+export type Notify = (message: string, options?: NotifyOptions) => () => void;
+
 export interface MfeProps {
   container: HTMLElement;
   basePath: string;
   auth: AuthContext;
-  eventBus: EventBus;
+  eventBus: ScopedEventBus;
   navigate: (path: string) => void;
   theme: 'light' | 'dark';
   navigation: NavigationApi;
   cache: MfeCache;
+  flags: FeatureFlags;
+  http: HttpClient;
+  notify: Notify;
 }
 
 export interface MfeLifecycle {
@@ -62,6 +150,9 @@ export interface MfeLifecycle {
   mount: (props: MfeProps) => Promise<void>;
   unmount: (props: MfeProps) => Promise<void>;
   unload?: () => Promise<void>;
+  // keepAlive MFEs only: called when hidden and shown again without remounting
+  suspend?: (props: MfeProps) => Promise<void>;
+  resume?: (props: MfeProps) => Promise<void>;
 }
 
 export interface MenuChild {
@@ -79,18 +170,51 @@ export interface MenuConfig {
   children?: MenuChild[];
 }
 
+// Milliseconds before each loading phase is abandoned
+export interface MfeTimeouts {
+  load?: number;
+  bootstrap?: number;
+  mount?: number;
+}
+
+export interface MfeRetryPolicy {
+  // Rounds over the entry and its fallbacks before giving up
+  attempts?: number;
+  // Delay before the second round; doubles for each round after that
+  backoff?: number;
+}
+
+// Per-MFE StateCache limits; evicting least recently used entries past either one
+export interface CacheQuota {
+  maxEntries?: number;
+  // Approximate, measured as serialized UTF-16 size
+  maxBytes?: number;
+}
+
 export interface MfeRegistration {
   id: string;
   name: string;
   entry: string;
+  // Tried in order when the entry fails to load, e.g. the origin after a CDN
+  fallbackEntries?: string[];
   route: string;
   activeWhen?: string[];
   menu?: MenuConfig;
   permissions?: string[];
   featureFlag?: string;
+  cacheQuota?: CacheQuota;
+  // Stay mounted (hidden) after navigating away instead of unmounting
+  keepAlive?: boolean;
+  // When to download the bundle ahead of navigation (default 'intent': nav link hover/focus)
+  prefetch?: 'eager' | 'idle' | 'intent' | 'none';
+  timeouts?: MfeTimeouts;
+  retry?: MfeRetryPolicy;
 }
 
 export interface MfeManifest {
   version: string;
   mfes: MfeRegistration[];
+  sharedState?: Record<string, SharedStateConfig>;
+  // How many inactive keepAlive MFEs stay mounted (default 3)
+  keepAliveLimit?: number;
 }
@@ -1,2 +1,12 @@
 /// <reference types="svelte" />
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_OIDC_ISSUER?: string;
+  readonly VITE_OIDC_CLIENT_ID?: string;
+  readonly VITE_OIDC_SCOPE?: string;
+  readonly VITE_OIDC_ROLES_CLAIM?: string;
+  readonly VITE_MANIFEST_OVERLAYS?: string;
+  readonly VITE_MFE_OVERRIDE_ORIGINS?: string;
+  readonly VITE_API_ORIGINS?: string;
+}